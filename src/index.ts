@@ -10,9 +10,28 @@
  *  - GH_REPO      仓库名
  *  - GH_BRANCH    分支名(可选，默认为主分支)
  *  - GH_TOKEN     私有仓库或加速下载所需的 GitHub Token
+ *  - GH_TOKENS    额外的 Token 列表，与 GH_TOKEN 组成 Token 池按速率限制轮换
  *  - URL/URL302   根路径 (/) 请求时的跳转或反向代理目标列表
  *  - ERROR        后端请求失败时返回的自定义错误文案
  *  - AUTH_PATHS   授权路径列表
+ *  - ROUTES       多仓库路由表(JSON)，按路径前缀/主机名映射到不同仓库
+ *  - ALLOWED_REFS 允许按请求指定的 ref 白名单(精确值、/正则/ 或 *)
+ *  - CACHE_CONFIG 边缘缓存规则(JSON)，按路径通配符配置 TTL
+ *  - HEADER_CONFIG 响应头规则(JSON)，按路径通配符设置或移除响应头
+ *  - CORS_CONFIG  跨域规则(JSON)，按路径通配符配置允许的来源、方法、请求头与凭据
+ *  - CACHE_BYPASS_KEY 调试用缓存绕过密钥(可选)
+ *  - LIST_PATHS   允许目录列表的路径前缀列表
+ *  - URL_SIGNING_KEY 签名 URL 所用的 HMAC 密钥(建议以 Secret 注入)
+ *  - DISABLE_LEGACY_SECRET 设为 true 时停用 ?secret= 静态密钥
+ *  - AUTH_HEADER  携带受保护目录密钥的自定义请求头名(可选)
+ *  - AUTH_CHALLENGE 鉴权失败时返回 401 的质询方式: basic / bearer(可选)
+ *  - REPLACE_CONFIG_STRICT 设为 false 时忽略无效替换规则而非返回 500
+ *  - REPLACE_KV   存放替换配置的 KV 命名空间绑定(可选，优先于 REPLACE_CONFIG)
+ *  - REPLACE_STREAM_THRESHOLD 超过该字节数的文件以流式执行替换(可选，默认 1 MiB)
+ *  - REPLACE_ENV_VARS 替换规则 envVars 可读取的变量范围(可选，部署时配置)
+ *  - ADMIN_TOKEN  管理接口 (/__config、/__sign) 访问令牌
+ *  - GH_APP_ID / GH_APP_PRIVATE_KEY / GH_APP_INSTALLATION_ID
+ *                 GitHub App 鉴权配置，配置后以 Installation Token 代替 GH_TOKEN
  *
  * @author
  * @date 2025-06-24
@@ -32,12 +51,81 @@ export interface GithubProxyEnv {
 	GH_REPO?: string;
 	GH_BRANCH?: string;
 	GH_TOKEN?: string;
+	GH_TOKENS?: string;
 	URL?: string;
 	URL302?: string;
 	ERROR?: string;
 	AUTH_PATHS?: string;
 	// 动态内容替换JSON配置
 	REPLACE_CONFIG?: string;
+	// 替换配置校验失败时是否拒绝服务
+	REPLACE_CONFIG_STRICT?: string;
+	// 存放替换配置的 KV 命名空间
+	REPLACE_KV?: KVNamespace;
+	// 以流式执行替换的文件大小阈值(字节)
+	REPLACE_STREAM_THRESHOLD?: string;
+	// 替换规则 envVars 可读取的变量范围
+	REPLACE_ENV_VARS?: string;
+	// 管理接口访问令牌
+	ADMIN_TOKEN?: string;
+	// 多仓库路由JSON配置
+	ROUTES?: string;
+	// 允许按请求指定的 ref 白名单
+	ALLOWED_REFS?: string;
+	// 边缘缓存JSON配置
+	CACHE_CONFIG?: string;
+	// 响应头规则JSON配置
+	HEADER_CONFIG?: string;
+	// 跨域规则JSON配置
+	CORS_CONFIG?: string;
+	// 缓存绕过请求头需携带的密钥
+	CACHE_BYPASS_KEY?: string;
+	// 允许目录列表的路径前缀
+	LIST_PATHS?: string;
+	// 签名 URL 的 HMAC 密钥
+	URL_SIGNING_KEY?: string;
+	// 停用 AUTH_PATHS 静态密钥
+	DISABLE_LEGACY_SECRET?: string;
+	// 携带密钥的自定义请求头名
+	AUTH_HEADER?: string;
+	// 鉴权失败时的质询方式
+	AUTH_CHALLENGE?: string;
+	// GitHub App 配置
+	GH_APP_ID?: string;
+	GH_APP_PRIVATE_KEY?: string;
+	GH_APP_INSTALLATION_ID?: string;
+}
+
+/**
+ * @brief 多仓库路由规则
+ *
+ * prefix 与 host 至少配置一项；同时配置时需两者均匹配。
+ */
+interface RepoRoute {
+	prefix?: string;                     // 路径前缀，如 /docs
+	host?: string;                       // 主机名，如 docs.example.com
+	owner: string;                       // GitHub 用户或组织名
+	repo: string;                        // 仓库名
+	branch?: string;                     // 分支名(可选)
+	token?: string;                      // 该仓库专用 Token(可选，默认 GH_TOKEN)
+	tokens?: string[];                   // 该仓库专用 Token 池(可选，优先于 token)
+	refs?: string[];                     // 该仓库的 ref 白名单(可选，默认 ALLOWED_REFS)
+	installationId?: string;             // GitHub App 安装 ID(可选，默认 GH_APP_INSTALLATION_ID)
+}
+
+/**
+ * @brief 路由解析结果
+ */
+interface ResolvedRoute {
+	owner?: string;
+	repo?: string;
+	branch?: string;
+	tokens: string[];                    // 可用 Token 池，按速率限制状态选取
+	installationId?: string;             // GitHub App 安装 ID，存在时优先使用 Installation Token
+	allowedRefs: string[];               // 允许按请求指定的 ref 白名单
+	prefix: string;                      // 命中的路径前缀，默认路由为空串
+	path: string;                        // 去除前缀后转发至 GitHub 的路径
+	requestPath: string;                 // 去除 @ref 段后的客户端路径，用于鉴权与规则匹配
 }
 
 /**
@@ -45,17 +133,132 @@ export interface GithubProxyEnv {
  */
 interface ReplaceRule {
 	files: string[];                     // 需要替换的文件列表
-	mode: 'env' | 'template' | 'regex';  // 替换模式
+	mode: 'env' | 'template' | 'regex' | 'structured'; // 替换模式
 	pattern?: string;                    // regex模式下的自定义正则
-	api?: {                              // API数据源配置
-		url: string;
-		method?: string;
-		headers?: Record<string, string>;
-	};
+	format?: 'json' | 'yaml';            // structured模式下的文档格式(可选，默认按扩展名识别)
+	keys?: Record<string, string>;       // structured模式下文档键路径到替换值名称的映射
+	api?: ApiSource;                     // API数据源配置
 	mappings?: Record<string, string>;   // 占位符到JSON路径的映射
+	sources?: ReplaceSource[];           // 多个命名API数据源，并行获取
 	static?: Record<string, string>;     // 静态替换值
+	staticFrom?: string;                 // 引用配置 values 中的值表作为静态替换值
+	envVars?: string[];                  // 允许读取的环境变量/Secret 名称，支持 PREFIX_* 前缀匹配
+	requestVars?: string[];              // 允许读取的请求值，如 query.region、header.X-Tenant、cf.country、ip
+	types?: string[];                    // 允许替换的扩展名(.yml)或 MIME 类型(text/*)，未配置时跳过二进制类型
+	charset?: string;                    // 文件字符集(可选，默认按 BOM 与 Content-Type 识别，否则为 UTF-8)
 	onError?: 'keep' | 'remove' | 'error'; // 错误处理策略
 	cache?: number;                      // API缓存时间（秒）
+	priority?: number;                   // 执行优先级，数值越大越先执行(默认 0)
+	stop?: boolean;                      // 为 true 时不再执行后续匹配规则
+}
+
+/**
+ * @brief API 数据源请求配置
+ */
+interface ApiSource {
+	url: string;                         // 主地址
+	fallback?: string[];                 // 主地址失败时依次尝试的备用地址
+	method?: string;
+	headers?: Record<string, string>;
+	timeout?: number;                    // 单次请求超时（毫秒）
+	retries?: number;                    // 每个地址失败后的重试次数(默认 0)
+	cache?: number;                      // 缓存时间（秒），api 字段使用规则的 cache
+	maxStale?: number;                   // 缓存过期后仍可返回旧值的时长（秒，默认 0）
+	negativeCache?: number;              // 请求失败后暂停请求的时长（秒，默认 30）
+}
+
+/**
+ * @brief API 数据缓存条目
+ */
+interface ApiCacheEntry {
+	data?: any;                          // 最近一次成功获取的数据
+	fetchedAt?: number;                  // 成功获取的时间(毫秒时间戳)
+	failedAt?: number;                   // 最近一次刷新失败的时间(毫秒时间戳)
+}
+
+/**
+ * @brief 内容替换执行上下文
+ */
+interface ReplaceContext {
+	pathname: string;                    // 文件路径，用于 structured 模式识别文档格式
+	env: GithubProxyEnv;                 // 运行时环境变量
+	ctx: ExecutionContext;               // 执行上下文，用于后台刷新 API 缓存
+	request: Request;                    // 客户端请求，提供 requestVars 中允许的请求值
+}
+
+/**
+ * @brief 文件字符集识别结果
+ */
+interface TextCharset {
+	encoding: string;                    // TextDecoder 规范化后的编码名称
+	bom: boolean;                        // 原文件是否带有 BOM
+}
+
+/**
+ * @brief 已收集替换值的规则
+ */
+interface ResolvedReplaceRule {
+	rule: ReplaceRule;
+	values: Record<string, any>;         // 替换值名称到值的映射
+}
+
+/**
+ * @brief 命名 API 数据源
+ *
+ * 配置 mappings 时以 名称.占位符 提供替换值，否则以名称提供完整响应，
+ * 占位符可按 JSON 路径访问，如 {{infra.api_host}}。
+ */
+interface ReplaceSource extends ApiSource {
+	name: string;                        // 命名空间
+	mappings?: Record<string, string>;   // 占位符到JSON路径的映射
+}
+
+/**
+ * @brief 替换配置校验结果
+ */
+interface ReplaceConfigReport {
+	rules: ReplaceRule[];                // 校验通过的规则
+	errors: string[];                    // 导致规则无效的错误
+	warnings: string[];                  // 不影响生效的警告(如未知字段)
+}
+
+/**
+ * @brief 边缘缓存规则配置
+ */
+interface CacheRule {
+	files: string[];                     // 需要缓存的文件列表，支持通配符
+	ttl: number;                         // 缓存时间（秒），0 表示不缓存
+}
+
+/**
+ * @brief 响应头规则配置
+ */
+interface HeaderRule {
+	files: string[];                     // 适用的文件列表，支持通配符
+	headers: Record<string, string | null>; // 需设置的响应头，值为 null 表示移除
+}
+
+/**
+ * @brief 跨域规则配置
+ */
+interface CorsRule {
+	files: string[];                     // 适用的文件列表，支持通配符
+	origins: string[];                   // 允许的来源，支持 * 与 https://*.example.com
+	methods?: string[];                  // 允许的方法(默认 GET、HEAD)
+	headers?: string[];                  // 允许携带的请求头
+	exposeHeaders?: string[];            // 允许脚本读取的响应头
+	credentials?: boolean;               // 是否允许携带凭据(Cookie、Authorization 等)
+	maxAge?: number;                     // 预检结果缓存时间（秒，默认 600）
+}
+
+/**
+ * @brief 目录列表条目
+ */
+interface DirectoryEntry {
+	name: string;
+	size: number;
+	sha: string;
+	type: string;                        // file / dir / symlink / submodule
 }
 
 /* ************************************************************************** */
@@ -63,32 +266,319 @@ interface ReplaceRule {
 /* ************************************************************************** */
 
 const GITHUB_RAW_ORIGIN = 'https://raw.githubusercontent.com';
+const GITHUB_API_ORIGIN = 'https://api.github.com';
+
+/* 缓存键所用的虚拟源站，与真实 GitHub URL 区分，避免与原始内容混淆 */
+const CACHE_KEY_ORIGIN = 'https://github-raw-proxy.cache';
+
+/* 调试用缓存绕过请求头 */
+const CACHE_BYPASS_HEADER = 'X-Proxy-Cache-Bypass';
+
+/* 缓存状态响应头: HIT / MISS / BYPASS */
+const CACHE_STATUS_HEADER = 'X-Proxy-Cache';
+
+/* 内容替换状态响应头: applied; rules=N / skipped; reason=binary|type */
+const REPLACE_STATUS_HEADER = 'X-Proxy-Replace';
+
+/* 签名 URL 生成接口路径 */
+const SIGN_ROUTE = '/__sign';
+
+/* 配置诊断接口路径 */
+const CONFIG_ROUTE = '/__config';
+
+/* REPLACE_KV 中存放替换配置的键名 */
+const REPLACE_KV_KEY = 'replace-config';
+
+/* KV 替换配置的隔离内缓存时间(毫秒) */
+const REPLACE_KV_CACHE_TTL = 30 * 1000;
+
+/* 签名 URL 默认有效期（秒） */
+const DEFAULT_SIGN_TTL = 3600;
+
+/**
+ * @brief 将二进制数据编码为小写十六进制字符串
+ *
+ * @param buffer 二进制数据
+ * @return 十六进制字符串
+ */
+function toHex(buffer: ArrayBuffer): string {
+	return Array.from(new Uint8Array(buffer))
+		.map((byte) => byte.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+/**
+ * @brief 常量时间比较两个字符串
+ *
+ * 长度不同时直接返回 false(仅泄露长度信息)。
+ *
+ * @param a 字符串 a
+ * @param b 字符串 b
+ * @return 相等返回 true
+ */
+function timingSafeEqualString(a: string, b: string): boolean {
+	const encoder = new TextEncoder();
+	const left = encoder.encode(a);
+	const right = encoder.encode(b);
+	if (left.length !== right.length) {
+		return false;
+	}
+	return crypto.subtle.timingSafeEqual(left, right);
+}
+
+/**
+ * @brief 规范化路由前缀
+ *
+ * 补全开头 /，去除结尾 /；根前缀 (/) 规范化为空串。
+ *
+ * @param prefix 原始前缀
+ * @return 规范化后的前缀
+ */
+function normalizeRoutePrefix(prefix: string | undefined): string {
+	if (!prefix) {
+		return '';
+	}
+	return ('/' + prefix.replace(/^\/+/, '')).replace(/\/+$/, '');
+}
+
+/**
+ * @brief 解析多仓库路由配置
+ *
+ * @param configStr ROUTES 环境变量值
+ * @return 路由规则数组，解析失败返回空数组
+ */
+function parseRouteConfig(configStr: string | undefined): RepoRoute[] {
+	if (!configStr) {
+		return [];
+	}
+
+	try {
+		const config = JSON.parse(configStr);
+		if (!Array.isArray(config)) {
+			return [];
+		}
+		return config.filter((route: RepoRoute) => route && route.owner && route.repo && (route.prefix || route.host));
+	} catch (e) {
+		console.error('解析 ROUTES 失败:', e);
+		return [];
+	}
+}
+
+/**
+ * @brief 根据请求主机名与路径解析目标仓库
+ *
+ * 匹配逻辑:
+ *  - 按路径段进行前缀匹配，/docs 可匹配 /docs 与 /docs/a，但不匹配 /docs2；
+ *  - 多条命中时取最长前缀，前缀等长时限定 host 的规则优先；
+ *  - 均未命中时回退至 GH_NAME/GH_REPO/GH_BRANCH/GH_TOKEN 组成的默认路由。
+ *
+ * @param url 请求 URL
+ * @param env 运行时环境变量
+ * @return 路由解析结果
+ */
+function resolveRoute(url: URL, env: GithubProxyEnv): ResolvedRoute {
+	const pathname = url.pathname;
+	const hostname = url.hostname.toLowerCase();
+
+	let matched: RepoRoute | null = null;
+	let matchedPrefix = '';
+	let matchedScore = -1;
+
+	for (const route of parseRouteConfig(env.ROUTES)) {
+		if (route.host && route.host.toLowerCase() !== hostname) {
+			continue;
+		}
+
+		const prefix = normalizeRoutePrefix(route.prefix);
+		if (prefix && pathname !== prefix && !pathname.startsWith(prefix + '/')) {
+			continue;
+		}
+
+		/* 前缀长度为主要权重，host 限定作为次要权重 */
+		const score = prefix.length * 2 + (route.host ? 1 : 0);
+		if (score > matchedScore) {
+			matched = route;
+			matchedPrefix = prefix;
+			matchedScore = score;
+		}
+	}
+
+	if (!matched) {
+		return {
+			owner: env.GH_NAME,
+			repo: env.GH_REPO,
+			branch: env.GH_BRANCH,
+			tokens: buildTokenPool(env),
+			installationId: env.GH_APP_INSTALLATION_ID,
+			allowedRefs: parseRefAllowlist(env.ALLOWED_REFS),
+			prefix: '',
+			path: pathname,
+			requestPath: pathname,
+		};
+	}
+
+	return {
+		owner: matched.owner,
+		repo: matched.repo,
+		branch: matched.branch,
+		tokens: Array.isArray(matched.tokens) && matched.tokens.length
+			? matched.tokens
+			: matched.token ? [matched.token] : buildTokenPool(env),
+		/* 路由显式配置 token 时不再套用默认安装 ID */
+		installationId: matched.installationId ?? (matched.token || matched.tokens ? undefined : env.GH_APP_INSTALLATION_ID),
+		allowedRefs: Array.isArray(matched.refs) ? matched.refs : parseRefAllowlist(env.ALLOWED_REFS),
+		prefix: matchedPrefix,
+		path: pathname.slice(matchedPrefix.length) || '/',
+		requestPath: pathname,
+	};
+}
+
+/**
+ * @brief 解析 ref 白名单
+ *
+ * 以逗号/空白分隔，每项可为精确 ref、/正则/ (整体匹配) 或 * (允许任意 ref)。
+ *
+ * @param raw ALLOWED_REFS 原始字符串
+ * @return 白名单条目数组
+ */
+function parseRefAllowlist(raw: string | undefined): string[] {
+	if (!raw) {
+		return [];
+	}
+	return raw.split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * @brief 判断 ref 是否在白名单内
+ *
+ * @param ref       请求指定的 ref
+ * @param allowlist 白名单条目
+ * @return 允许访问返回 true
+ */
+function isRefAllowed(ref: string, allowlist: string[]): boolean {
+	return allowlist.some((entry) => {
+		if (entry === '*') {
+			return true;
+		}
+
+		if (entry.length > 2 && entry.startsWith('/') && entry.endsWith('/')) {
+			try {
+				return new RegExp(`^(?:${entry.slice(1, -1)})$`).test(ref);
+			} catch (e) {
+				console.error('ALLOWED_REFS 正则解析失败:', e);
+				return false;
+			}
+		}
+
+		return entry === ref;
+	});
+}
+
+/**
+ * @brief 解析请求指定的 ref 并应用到路由
+ *
+ * 支持两种语法(路径语法优先):
+ *  - 路径: /[前缀]/@v1.2.3/path/file，ref 段中的 / 需编码为 %2F；
+ *  - 查询参数: /path/file?ref=<branch|tag|sha>
+ *
+ * 仅当路由配置了 ref 白名单时才解析 ref；未配置时 ?ref= 与 @ 开头的路径段
+ * (如 /@types/index.d.ts) 按普通请求原样透传。
+ * 配置白名单后，完整路径透传(未配置仓库名)与 Raw 地址透传均会绕过白名单，直接拒绝；
+ * 未固定分支时首个路径段即为 ref，同样需命中白名单。
+ *
+ * @param route 路由解析结果
+ * @param url   请求 URL
+ * @return 应用 ref 后的路由；ref 非法或不在白名单内返回 null
+ */
+function applyRefSelection(route: ResolvedRoute, url: URL): ResolvedRoute | null {
+	if (!route.allowedRefs.length) {
+		return route;
+	}
+
+	if (!route.owner || !route.repo || isRawUrlPassthrough(route.path)) {
+		return null;
+	}
+
+	let ref = url.searchParams.get('ref');
+	let path = route.path;
+
+	const refSegment = path.match(/^\/@([^/]+)(\/.*)?$/);
+	if (refSegment) {
+		try {
+			ref = decodeURIComponent(refSegment[1]);
+		} catch (e) {
+			return null;
+		}
+		path = refSegment[2] || '/';
+	}
+
+	if (ref === null) {
+		return route.branch || isRefAllowed(readLeadingRef(path), route.allowedRefs) ? route : null;
+	}
+
+	/* 仅允许常见 ref 字符，拒绝 .. 以免跳出仓库路径 */
+	if (!/^[\w.\-\/]+$/.test(ref) || ref.includes('..') || !isRefAllowed(ref, route.allowedRefs)) {
+		return null;
+	}
+
+	return {
+		...route,
+		branch: ref,
+		path,
+		requestPath: route.prefix + path,
+	};
+}
+
+/**
+ * @brief 读取未固定分支时作为 ref 的首个路径段
+ *
+ * @param path 仓库内路径
+ * @return 解码后的首个路径段，解码失败返回空串
+ */
+function readLeadingRef(path: string): string {
+	try {
+		return decodeURIComponent(path.split('/')[1] ?? '');
+	} catch (e) {
+		return '';
+	}
+}
+
+/**
+ * @brief 判断路径本身是否为 raw.githubusercontent.com 地址
+ *
+ * @param pathname 请求路径
+ * @return 需原样透传返回 true
+ */
+function isRawUrlPassthrough(pathname: string): boolean {
+	return new RegExp(GITHUB_RAW_ORIGIN, 'i').test(pathname);
+}
 
 /**
  * @brief 构建 GitHub Raw 文件直链
  *
- * @param pathname   客户端请求路径，如 /path/to/file
- * @param env        运行时环境变量
+ * @param route 路由解析结果
  * @return 完整 GitHub Raw URL
  */
-function buildGithubRawUrl(pathname: string, env: GithubProxyEnv): string {
+function buildGithubRawUrl(route: ResolvedRoute): string {
+	const pathname = route.path;
+
 	// 若 pathname 本身已是 raw.githubusercontent.com，则原样透传
-	if (new RegExp(GITHUB_RAW_ORIGIN, 'i').test(pathname)) {
+	if (isRawUrlPassthrough(pathname)) {
 		return `${GITHUB_RAW_ORIGIN}${pathname.split(GITHUB_RAW_ORIGIN)[1] ?? ''}`;
 	}
 
 	const segments: string[] = [GITHUB_RAW_ORIGIN];
 
 	/* 依次追加用户/仓库/分支信息 */
-	if (env.GH_NAME) {
-		segments.push(env.GH_NAME);
+	if (route.owner) {
+		segments.push(route.owner);
 
-		if (env.GH_REPO) {
-			segments.push(env.GH_REPO);
+		if (route.repo) {
+			segments.push(route.repo);
 
 			/* 分支可为空，GitHub 会自动取默认分支 */
-			if (env.GH_BRANCH) {
-				segments.push(env.GH_BRANCH);
+			if (route.branch) {
+				segments.push(route.branch);
 			}
 		}
 	}
@@ -102,16 +592,83 @@ function buildGithubRawUrl(pathname: string, env: GithubProxyEnv): string {
  * @brief 解析请求应携带的 GitHub Token
  *
  * 解析逻辑:
- *  仅使用环境变量 GH_TOKEN，不再支持 URL 查询参数。
+ *  - 配置 GitHub App 且路由存在安装 ID 时，使用 Installation Token；
+ *  - 否则从路由的 Token 池(路由 tokens/token，未配置时为 GH_TOKEN + GH_TOKENS)
+ *    中选取剩余额度最多的 Token；
+ *  - 不再支持 URL 查询参数。
  *
- * @param env 运行时环境变量
+ * @param route 路由解析结果
+ * @param env   运行时环境变量
  * @return 返回有效 Token，若无有效 Token 返回空字符串
  */
-function resolveToken(env: GithubProxyEnv): string {
-	/*
-	 * 从 Cloudflare Workers 环境变量中获取 Token。
-	 */
-	return env.GH_TOKEN ?? '';
+async function resolveToken(route: ResolvedRoute, env: GithubProxyEnv): Promise<string> {
+	if (usesGithubApp(route, env)) {
+		try {
+			return await getInstallationToken(route.installationId!, env);
+		} catch (e) {
+			/* App 换取失败时回退至静态 Token，避免整体不可用 */
+			console.error('[GitHubApp] 获取 Installation Token 失败:', e);
+		}
+	}
+
+	return selectPoolToken(route.tokens, []);
+}
+
+/**
+ * @brief 携带 Token 请求 GitHub
+ *
+ * 重试逻辑(至多一次):
+ *  - 使用 Installation Token 且返回 401 时，清除缓存并换取新 Token 重试；
+ *  - 使用 Token 池且返回 403/429 时，换用池中另一个 Token 重试。
+ *
+ * 返回的响应附带 X-Token-Index 调试头，标识实际使用的 Token 序号(App 为 app)。
+ *
+ * @param url     请求地址
+ * @param headers 请求头(将写入 Authorization)
+ * @param token   已解析的 Token
+ * @param route   路由解析结果
+ * @param env     运行时环境变量
+ * @return GitHub 响应
+ */
+async function fetchFromGithub(
+	url: string,
+	headers: Headers,
+	token: string,
+	route: ResolvedRoute,
+	env: GithubProxyEnv
+): Promise<Response> {
+	const viaApp = usesGithubApp(route, env) && !route.tokens.includes(token);
+
+	headers.set('Authorization', `token ${token}`);
+	let response = await fetch(url, { headers });
+	let servedBy = token;
+
+	if (!viaApp) {
+		recordRateLimit(token, response);
+	}
+
+	if (response.status === 401 && viaApp) {
+		installationTokenCache.delete(route.installationId!);
+		const refreshed = await resolveToken(route, env);
+		if (refreshed && refreshed !== token) {
+			headers.set('Authorization', `token ${refreshed}`);
+			response = await fetch(url, { headers });
+			servedBy = refreshed;
+		}
+	} else if ((response.status === 403 || response.status === 429) && !viaApp) {
+		const fallback = selectPoolToken(route.tokens, [token]);
+		if (fallback) {
+			headers.set('Authorization', `token ${fallback}`);
+			response = await fetch(url, { headers });
+			servedBy = fallback;
+			recordRateLimit(fallback, response);
+		}
+	}
+
+	const tagged = new Response(response.body, response);
+	const index = route.tokens.indexOf(servedBy);
+	tagged.headers.set(TOKEN_INDEX_HEADER, index >= 0 ? String(index) : 'app');
+	return tagged;
 }
 
 /**
@@ -156,284 +713,3202 @@ function parseAuthMappings(raw: string): Record<string, string> {
 }
 
 /**
- * @brief 校验受保护目录访问权限
+ * @brief 计算签名 URL 的 HMAC-SHA256 签名
  *
- * @param pathname  请求的 URL.pathname
- * @param request   原始 Request，用于获取查询参数
- * @param env       运行时环境变量
- * @return 若验证通过返回 true，否则返回 false
+ * 签名内容为 "路径\n过期时间\n客户端IP\nref"，未绑定 IP 时 IP 段为空；
+ * ref 为请求最终读取的分支/标签/提交，签名只对该 ref 有效。
+ *
+ * @param pathname 客户端请求路径(不含 @ref 段与查询参数)
+ * @param ref      解析后的 ref，路由未固定分支时传空串
+ * @param expires  过期时间(Unix 秒)
+ * @param ip       绑定的客户端 IP，不绑定时传空串
+ * @param secret   HMAC 密钥
+ * @return 十六进制签名
  */
-function isAuthorized(pathname: string, request: Request, env: GithubProxyEnv): boolean {
-	if (!env.AUTH_PATHS) {
-		return true; // 未配置受保护目录，直接放行
-	}
-
-	const mappings = parseAuthMappings(env.AUTH_PATHS);
-
-	// 去除开头 '/'
-	const relativePath = pathname.replace(/^\/+/, '');
-
-	for (const [protectedDir, expectedSecret] of Object.entries(mappings)) {
-		if (relativePath.startsWith(protectedDir)) {
-			const providedSecret = new URL(request.url).searchParams.get('secret');
-			return providedSecret === expectedSecret;
-		}
-	}
-
-	return true; // 不在受保护目录列表
+async function signPath(pathname: string, ref: string, expires: number, ip: string, secret: string): Promise<string> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${pathname}\n${expires}\n${ip}\n${ref}`));
+	return toHex(signature);
 }
 
-/* ************************************************************************** */
-/*                        动态内容替换相关函数                                  */
-/* ************************************************************************** */
-
-// API 响应缓存存储
-const apiCache = new Map<string, { data: any; expires: number }>();
-
 /**
- * @brief 解析替换配置
+ * @brief 校验签名 URL
  *
- * @param configStr REPLACE_CONFIG 环境变量值
- * @return 替换规则数组，解析失败返回空数组
+ * 查询参数:
+ *  - expires 过期时间(Unix 秒)
+ *  - sig     HMAC-SHA256 十六进制签名
+ *  - ip      为 1 时签名绑定 CF-Connecting-IP
+ *
+ * @param pathname 客户端请求路径
+ * @param ref      解析后的 ref
+ * @param request  原始请求
+ * @param secret   HMAC 密钥
+ * @return 签名有效且未过期返回 true
  */
-function parseReplaceConfig(configStr: string | undefined): ReplaceRule[] {
-	if (!configStr) {
-		return [];
+async function verifySignedUrl(pathname: string, ref: string, request: Request, secret: string): Promise<boolean> {
+	const params = new URL(request.url).searchParams;
+	const expires = parseInt(params.get('expires') ?? '', 10);
+	const provided = params.get('sig') ?? '';
+
+	if (isNaN(expires) || expires < Math.floor(Date.now() / 1000)) {
+		return false;
 	}
-	
-	try {
-		const config = JSON.parse(configStr);
-		return Array.isArray(config) ? config : [];
-	} catch (e) {
-		console.error('解析 REPLACE_CONFIG 失败:', e);
-		return [];
+
+	const ip = params.get('ip') === '1' ? request.headers.get('CF-Connecting-IP') ?? '' : '';
+	if (params.get('ip') === '1' && !ip) {
+		return false;
 	}
+
+	const expected = await signPath(pathname, ref, expires, ip, secret);
+	return timingSafeEqualString(provided.toLowerCase(), expected);
 }
 
 /**
- * @brief 从 JSON 对象中根据路径提取值
+ * @brief 从请求头中提取受保护目录密钥
  *
- * 支持嵌套访问，如 "results.0.proxy_address"
- * 
- * @param obj JSON 对象
- * @param path 访问路径
- * @return 提取的值，未找到则返回 undefined
+ * 支持的形式(按顺序):
+ *  - Authorization: Bearer <密钥>
+ *  - Authorization: Basic base64(用户名:密钥)，密钥为空时取用户名
+ *  - AUTH_HEADER 指定的自定义请求头，如 X-Api-Key: <密钥>
+ *
+ * @param request 原始请求
+ * @param env     运行时环境变量
+ * @return 提取到的密钥，未携带返回 null
  */
-function getValueByPath(obj: any, path: string): any {
-	const keys = path.split('.');
-	let current = obj;
-	
-	for (const key of keys) {
-		if (current === null || current === undefined) {
-			return undefined;
+function extractHeaderSecret(request: Request, env: GithubProxyEnv): string | null {
+	const authorization = request.headers.get('Authorization');
+	if (authorization) {
+		const [scheme, credentials = ''] = authorization.trim().split(/\s+/, 2);
+
+		if (/^bearer$/i.test(scheme) && credentials) {
+			return credentials;
 		}
-		
-		// 处理数组索引
-		if (/^\d+$/.test(key)) {
-			current = current[parseInt(key, 10)];
-		} else {
-			current = current[key];
+
+		if (/^basic$/i.test(scheme) && credentials) {
+			try {
+				const decoded = atob(credentials);
+				const separator = decoded.indexOf(':');
+				const username = separator >= 0 ? decoded.slice(0, separator) : decoded;
+				const password = separator >= 0 ? decoded.slice(separator + 1) : '';
+				return password || username;
+			} catch (e) {
+				return null;
+			}
 		}
 	}
-	
-	return current;
+
+	if (env.AUTH_HEADER) {
+		return request.headers.get(env.AUTH_HEADER);
+	}
+
+	return null;
 }
 
 /**
- * @brief 从 API 获取替换数据（带缓存）
+ * @brief 查找路径所属的受保护目录
  *
- * @param rule 替换规则
- * @return API 响应数据，失败返回 null
+ * 按路径段匹配并取最具体(最长)的目录，config 不会匹配 config2/。
+ *
+ * @param pathname 请求路径
+ * @param mappings 目录到密钥的映射表
+ * @return 命中的目录，未命中返回 null
  */
-async function fetchReplacementData(rule: ReplaceRule): Promise<any | null> {
-	if (!rule.api?.url) {
+function findProtectedDir(pathname: string, mappings: Record<string, string>): string | null {
+	// 去除开头 '/'
+	const relativePath = pathname.replace(/^\/+/, '');
+
+	const matched = Object.keys(mappings)
+		.filter((dir) => relativePath === dir || relativePath.startsWith(dir + '/'))
+		.sort((a, b) => b.length - a.length);
+
+	return matched[0] ?? null;
+}
+
+/**
+ * @brief 校验受保护目录访问权限
+ *
+ * 配置 URL_SIGNING_KEY 后，携带 sig 参数的请求按签名 URL 校验；
+ * 其余请求可通过请求头携带密钥，未停用时仍兼容 ?secret= 静态密钥。
+ *
+ * @param pathname  请求的 URL.pathname
+ * @param ref       解析后的 ref，签名 URL 须与之匹配
+ * @param request   原始 Request，用于获取查询参数
+ * @param env       运行时环境变量
+ * @return 若验证通过返回 true，否则返回 false
+ */
+async function isAuthorized(pathname: string, ref: string, request: Request, env: GithubProxyEnv): Promise<boolean> {
+	if (!env.AUTH_PATHS) {
+		return true; // 未配置受保护目录，直接放行
+	}
+
+	const mappings = parseAuthMappings(env.AUTH_PATHS);
+	const protectedDir = findProtectedDir(pathname, mappings);
+
+	if (protectedDir === null) {
+		return true; // 不在受保护目录列表
+	}
+
+	/* 浏览器跨域请求须来自 CORS_CONFIG 允许的来源，凭据正确也拒绝 */
+	if (!isCorsOriginAllowed(pathname, request, env)) {
+		return false;
+	}
+
+	const expectedSecret = mappings[protectedDir];
+	const params = new URL(request.url).searchParams;
+
+	if (env.URL_SIGNING_KEY && params.has('sig')) {
+		return verifySignedUrl(pathname, ref, request, env.URL_SIGNING_KEY);
+	}
+
+	const headerSecret = extractHeaderSecret(request, env);
+	if (headerSecret !== null) {
+		return timingSafeEqualString(headerSecret, expectedSecret);
+	}
+
+	if (env.DISABLE_LEGACY_SECRET === 'true') {
+		return false;
+	}
+
+	const providedSecret = params.get('secret');
+	return providedSecret !== null && timingSafeEqualString(providedSecret, expectedSecret);
+}
+
+/**
+ * @brief 构建鉴权失败响应
+ *
+ * 默认返回 404 以避免暴露资源信息；配置 AUTH_CHALLENGE 时返回
+ * 401 并附带 WWW-Authenticate，便于 curl/包管理器等工具自动携带凭据。
+ *
+ * @param env 运行时环境变量
+ * @return 响应
+ */
+function buildUnauthorizedResponse(env: GithubProxyEnv): Response {
+	const challenge = (env.AUTH_CHALLENGE ?? '').toLowerCase();
+
+	if (challenge === 'basic' || challenge === 'bearer') {
+		const scheme = challenge === 'basic' ? 'Basic' : 'Bearer';
+		return new Response('Unauthorized', {
+			status: 401,
+			headers: { 'WWW-Authenticate': `${scheme} realm="github-raw-proxy"` },
+		});
+	}
+
+	return new Response(null, { status: 404 });
+}
+
+/* ************************************************************************** */
+/*                          Token 池相关函数                                    */
+/* ************************************************************************** */
+
+/* Token 速率限制状态，key 为 Token */
+const tokenRateLimits = new Map<string, { remaining: number; reset: number }>();
+
+/* 标识实际使用 Token 序号的调试响应头 */
+const TOKEN_INDEX_HEADER = 'X-Token-Index';
+
+/**
+ * @brief 构建默认 Token 池
+ *
+ * 由 GH_TOKEN 与 GH_TOKENS(逗号/空白分隔)组成，去重后保持配置顺序。
+ *
+ * @param env 运行时环境变量
+ * @return Token 数组
+ */
+function buildTokenPool(env: GithubProxyEnv): string[] {
+	const tokens = [env.GH_TOKEN ?? '', ...(env.GH_TOKENS ?? '').split(/[\s,]+/)].filter(Boolean);
+	return Array.from(new Set(tokens));
+}
+
+/**
+ * @brief 根据上游响应记录 Token 速率限制状态
+ *
+ * 读取 X-RateLimit-Remaining / X-RateLimit-Reset；429 或
+ * 额度耗尽的 403 会将 Token 标记为耗尽，直至重置时间(或 Retry-After)。
+ *
+ * @param token    使用的 Token
+ * @param response GitHub 响应
+ */
+function recordRateLimit(token: string, response: Response): void {
+	const now = Math.floor(Date.now() / 1000);
+	const remainingHeader = response.headers.get('X-RateLimit-Remaining');
+	const resetHeader = response.headers.get('X-RateLimit-Reset');
+	const retryAfter = parseInt(response.headers.get('Retry-After') ?? '', 10);
+
+	let remaining = remainingHeader !== null ? parseInt(remainingHeader, 10) : NaN;
+	let reset = resetHeader !== null ? parseInt(resetHeader, 10) : NaN;
+
+	if (response.status === 429 || (response.status === 403 && remaining === 0)) {
+		remaining = 0;
+		if (!isNaN(retryAfter)) {
+			reset = now + retryAfter;
+		} else if (isNaN(reset)) {
+			reset = now + 60;
+		}
+	}
+
+	if (!isNaN(remaining) && !isNaN(reset)) {
+		tokenRateLimits.set(token, { remaining, reset });
+	}
+}
+
+/**
+ * @brief 从 Token 池中选取最健康的 Token
+ *
+ * 状态未知或已过重置时间的 Token 视为额度充足；其余按剩余额度降序，
+ * 额度相同时保持配置顺序。全部耗尽时仍返回重置最早的 Token。
+ *
+ * @param tokens  Token 池
+ * @param exclude 需排除的 Token
+ * @return 选中的 Token，无可用 Token 返回空字符串
+ */
+function selectPoolToken(tokens: string[], exclude: string[]): string {
+	const now = Math.floor(Date.now() / 1000);
+	const candidates = tokens.filter((token) => !exclude.includes(token));
+
+	let selected = '';
+	let selectedScore = -Infinity;
+	let selectedReset = Infinity;
+
+	for (const token of candidates) {
+		const state = tokenRateLimits.get(token);
+		const score = state && state.reset > now ? state.remaining : Infinity;
+		const reset = state?.reset ?? 0;
+
+		if (score > selectedScore || (score === selectedScore && score === 0 && reset < selectedReset)) {
+			selected = token;
+			selectedScore = score;
+			selectedReset = reset;
+		}
+	}
+
+	return selected;
+}
+
+/* ************************************************************************** */
+/*                        GitHub App 鉴权相关函数                               */
+/* ************************************************************************** */
+
+/* Installation Token 缓存，key 为安装 ID */
+const installationTokenCache = new Map<string, { token: string; expires: number }>();
+
+/* Installation Token 提前刷新的时间余量（毫秒） */
+const INSTALLATION_TOKEN_REFRESH_MARGIN = 5 * 60 * 1000;
+
+/**
+ * @brief 判断当前路由是否使用 GitHub App 鉴权
+ *
+ * @param route 路由解析结果
+ * @param env   运行时环境变量
+ * @return 已配置 App 且存在安装 ID 时返回 true
+ */
+function usesGithubApp(route: ResolvedRoute, env: GithubProxyEnv): boolean {
+	return !!(env.GH_APP_ID && env.GH_APP_PRIVATE_KEY && route.installationId);
+}
+
+/**
+ * @brief Base64URL 编码
+ *
+ * @param data 字符串或二进制数据
+ * @return Base64URL 字符串(无填充)
+ */
+function base64UrlEncode(data: string | ArrayBuffer): string {
+	const binary = typeof data === 'string'
+		? String.fromCharCode(...new TextEncoder().encode(data))
+		: String.fromCharCode(...new Uint8Array(data));
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * @brief 编码 DER 长度字段
+ *
+ * @param length 内容长度
+ * @return DER 长度字节
+ */
+function encodeDerLength(length: number): number[] {
+	if (length < 0x80) {
+		return [length];
+	}
+	const bytes: number[] = [];
+	for (let remaining = length; remaining > 0; remaining >>= 8) {
+		bytes.unshift(remaining & 0xff);
+	}
+	return [0x80 | bytes.length, ...bytes];
+}
+
+/**
+ * @brief 将 PEM 私钥解析为 PKCS#8 DER
+ *
+ * GitHub 下载的 App 私钥为 PKCS#1 (BEGIN RSA PRIVATE KEY)，
+ * WebCrypto 仅支持 PKCS#8，因此需包装一层 AlgorithmIdentifier。
+ * 环境变量中以字面量 \n 表示的换行同样支持。
+ *
+ * @param pem PEM 格式私钥
+ * @return PKCS#8 DER 字节
+ */
+function pemToPkcs8(pem: string): Uint8Array {
+	const normalized = pem.replace(/\\n/g, '\n');
+	const isPkcs1 = normalized.includes('BEGIN RSA PRIVATE KEY');
+	const base64 = normalized.replace(/-----(BEGIN|END)[^-]+-----/g, '').replace(/\s+/g, '');
+	const der = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
+	if (!isPkcs1) {
+		return der;
+	}
+
+	/* version(0) + AlgorithmIdentifier(rsaEncryption, NULL) */
+	const prefix = [0x02, 0x01, 0x00, 0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00];
+	const octetString = [0x04, ...encodeDerLength(der.length)];
+	const bodyLength = prefix.length + octetString.length + der.length;
+
+	return new Uint8Array([0x30, ...encodeDerLength(bodyLength), ...prefix, ...octetString, ...der]);
+}
+
+/**
+ * @brief 使用 App 私钥签发 JWT (RS256)
+ *
+ * iat 提前 60 秒以容忍时钟偏差，有效期 9 分钟(GitHub 上限 10 分钟)。
+ *
+ * @param appId      GitHub App ID
+ * @param privateKey PEM 格式私钥
+ * @return JWT 字符串
+ */
+async function createAppJwt(appId: string, privateKey: string): Promise<string> {
+	const now = Math.floor(Date.now() / 1000);
+	const header = base64UrlEncode(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+	const payload = base64UrlEncode(JSON.stringify({ iat: now - 60, exp: now + 540, iss: appId }));
+
+	const key = await crypto.subtle.importKey(
+		'pkcs8',
+		pemToPkcs8(privateKey),
+		{ name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+		false,
+		['sign']
+	);
+	const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(`${header}.${payload}`));
+
+	return `${header}.${payload}.${base64UrlEncode(signature)}`;
+}
+
+/**
+ * @brief 获取 Installation Token（带缓存）
+ *
+ * 缓存至过期前 5 分钟，到期后重新以 App JWT 换取。
+ *
+ * @param installationId GitHub App 安装 ID
+ * @param env            运行时环境变量
+ * @return Installation Token
+ */
+async function getInstallationToken(installationId: string, env: GithubProxyEnv): Promise<string> {
+	const cached = installationTokenCache.get(installationId);
+	const now = Date.now();
+
+	if (cached && cached.expires - INSTALLATION_TOKEN_REFRESH_MARGIN > now) {
+		return cached.token;
+	}
+
+	const jwt = await createAppJwt(env.GH_APP_ID!, env.GH_APP_PRIVATE_KEY!);
+	const response = await fetch(`${GITHUB_API_ORIGIN}/app/installations/${installationId}/access_tokens`, {
+		method: 'POST',
+		headers: {
+			Authorization: `Bearer ${jwt}`,
+			Accept: 'application/vnd.github+json',
+			'User-Agent': 'worker-githubraw',
+		},
+	});
+
+	if (!response.ok) {
+		throw new Error(`换取 Installation Token 失败: ${response.status} ${response.statusText}`);
+	}
+
+	const data = await response.json<{ token: string; expires_at: string }>();
+	installationTokenCache.set(installationId, {
+		token: data.token,
+		expires: Date.parse(data.expires_at) || now + 60 * 60 * 1000,
+	});
+
+	return data.token;
+}
+
+/* ************************************************************************** */
+/*                        动态内容替换相关函数                                  */
+/* ************************************************************************** */
+
+// API 响应缓存存储(隔离内)，持久副本存放于 Cache API
+const apiCache = new Map<string, ApiCacheEntry>();
+
+// 正在进行的 API 缓存刷新，避免并发请求重复刷新
+const apiRefreshes = new Map<string, Promise<any | null>>();
+
+/* API 请求失败后默认暂停请求的时长(秒) */
+const DEFAULT_API_NEGATIVE_CACHE = 30;
+
+/* 默认以流式执行替换的文件大小阈值(字节) */
+const DEFAULT_REPLACE_STREAM_THRESHOLD = 1024 * 1024;
+
+/* 流式替换时等待占位符或模板块闭合的最大字符数 */
+const REPLACE_STREAM_MAX_PENDING = 64 * 1024;
+
+/* 可流式执行的替换模式，regex 与 structured 需要完整内容 */
+const STREAMABLE_REPLACE_MODES = ['env', 'template'];
+
+/* 嗅探二进制内容时读取的字节数 */
+const BINARY_SNIFF_LENGTH = 8000;
+
+/* 视为二进制的 MIME 类型，未配置 types 的规则不处理 */
+const BINARY_CONTENT_TYPE = /^(image\/(?!svg\+xml)|audio\/|video\/|font\/|application\/(octet-stream|zip|gzip|x-gzip|x-tar|x-7z-compressed|pdf|wasm)\b)/i;
+
+/* 各编码的 BOM 字节序列 */
+const CHARSET_BOMS: Record<string, number[]> = {
+	'utf-8': [0xef, 0xbb, 0xbf],
+	'utf-16le': [0xff, 0xfe],
+	'utf-16be': [0xfe, 0xff],
+};
+
+/* ReplaceRule 支持的字段，其余字段视为拼写错误给出警告 */
+const REPLACE_RULE_FIELDS = ['files', 'mode', 'pattern', 'format', 'keys', 'api', 'mappings', 'sources', 'static', 'staticFrom', 'envVars', 'requestVars', 'types', 'charset', 'onError', 'cache', 'priority', 'stop'];
+
+/* API 数据源支持的字段 */
+const API_SOURCE_FIELDS = ['name', 'url', 'fallback', 'method', 'headers', 'mappings', 'timeout', 'retries', 'cache', 'maxStale', 'negativeCache'];
+
+const REPLACE_MODES = ['env', 'template', 'regex', 'structured'];
+const STRUCTURED_FORMATS = ['json', 'yaml'];
+const ERROR_STRATEGIES = ['keep', 'remove', 'error'];
+
+/**
+ * @brief 判断值是否为字符串字典
+ *
+ * @param value 待检查的值
+ * @return 为普通对象且所有值均为字符串时返回 true
+ */
+function isStringRecord(value: unknown): value is Record<string, string> {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		!Array.isArray(value) &&
+		Object.values(value).every((item) => typeof item === 'string')
+	);
+}
+
+/**
+ * @brief 校验单条替换规则
+ *
+ * @param rule   待校验的规则
+ * @param label  规则标识，用于错误信息
+ * @param report 校验结果，错误与警告追加至其中
+ * @return 规则有效返回 true
+ */
+function validateReplaceRule(rule: any, label: string, report: ReplaceConfigReport): boolean {
+	const errorCount = report.errors.length;
+	const error = (message: string) => report.errors.push(`${label}: ${message}`);
+	const warn = (message: string) => report.warnings.push(`${label}: ${message}`);
+
+	if (typeof rule !== 'object' || rule === null || Array.isArray(rule)) {
+		error('规则必须为对象');
+		return false;
+	}
+
+	for (const field of Object.keys(rule)) {
+		if (!REPLACE_RULE_FIELDS.includes(field)) {
+			warn(`未知字段 "${field}"`);
+		}
+	}
+
+	if (!Array.isArray(rule.files) || rule.files.length === 0 || !rule.files.every((file: unknown) => typeof file === 'string' && file)) {
+		error('files 必须为非空字符串数组');
+	}
+
+	if (!REPLACE_MODES.includes(rule.mode)) {
+		error(`mode 必须为 ${REPLACE_MODES.join('/')} 之一，实际为 ${JSON.stringify(rule.mode)}`);
+	}
+
+	if (rule.mode === 'regex') {
+		if (typeof rule.pattern !== 'string' || !rule.pattern) {
+			error('regex 模式必须配置 pattern');
+		} else {
+			try {
+				new RegExp(rule.pattern, 'g');
+			} catch (e) {
+				error(`pattern 不是合法的正则表达式: ${(e as Error).message}`);
+			}
+		}
+	} else if (rule.pattern !== undefined) {
+		warn(`pattern 仅在 regex 模式下生效`);
+	}
+
+	if (rule.mode === 'structured') {
+		if (!isStringRecord(rule.keys) || Object.keys(rule.keys).length === 0) {
+			error('structured 模式必须配置 keys（文档键路径 → 替换值名称）');
+		}
+		if (rule.format !== undefined && !STRUCTURED_FORMATS.includes(rule.format)) {
+			error(`format 必须为 ${STRUCTURED_FORMATS.join('/')} 之一，实际为 ${JSON.stringify(rule.format)}`);
+		}
+	} else if (rule.keys !== undefined || rule.format !== undefined) {
+		warn('keys/format 仅在 structured 模式下生效');
+	}
+
+	if (rule.types !== undefined) {
+		const typePattern = /^(\.[\w.+-]+|[\w.+-]+\/([\w.+-]+|\*))$/;
+		if (!Array.isArray(rule.types) || !rule.types.every((entry: unknown) => typeof entry === 'string' && typePattern.test(entry))) {
+			error('types 必须为扩展名(如 .yml)或 MIME 类型(如 text/*)组成的数组');
+		}
+	}
+
+	if (rule.charset !== undefined) {
+		try {
+			new TextDecoder(rule.charset);
+		} catch (e) {
+			error(`charset 不是受支持的编码: ${JSON.stringify(rule.charset)}`);
+		}
+	}
+
+	if (rule.api !== undefined) {
+		validateApiSource(rule.api, 'api', error, warn);
+		if (rule.api?.name !== undefined || rule.api?.mappings !== undefined || rule.api?.cache !== undefined) {
+			warn('api 中的 name/mappings/cache 不生效，请配置在规则上或改用 sources');
+		}
+		if (rule.mappings === undefined) {
+			warn('配置了 api 但未配置 mappings，API 数据不会被使用');
+		}
+	}
+
+	if (rule.sources !== undefined) {
+		if (!Array.isArray(rule.sources)) {
+			error('sources 必须为数组');
+		} else {
+			const names = new Set<string>();
+			rule.sources.forEach((source: any, index: number) => {
+				const label = `sources[${index}]`;
+				validateApiSource(source, label, error, warn);
+				if (typeof source?.name !== 'string' || !/^[\w-]+$/.test(source.name)) {
+					error(`${label}.name 必须为由字母、数字、_ 或 - 组成的字符串`);
+				} else if (names.has(source.name)) {
+					error(`${label}.name "${source.name}" 重复`);
+				} else {
+					names.add(source.name);
+				}
+				if (source?.mappings !== undefined && !isStringRecord(source.mappings)) {
+					error(`${label}.mappings 必须为 占位符 → JSON 路径 的字符串键值对`);
+				} else if (source?.mappings !== undefined) {
+					validateMappingPaths(source.mappings, `${label}.mappings`, error);
+				}
+				if (source?.cache !== undefined && (typeof source.cache !== 'number' || source.cache < 0)) {
+					error(`${label}.cache 必须为非负数字（秒）`);
+				}
+			});
+		}
+	}
+
+	if (rule.mappings !== undefined && !isStringRecord(rule.mappings)) {
+		error('mappings 必须为 占位符 → JSON 路径 的字符串键值对');
+	} else if (rule.mappings !== undefined) {
+		validateMappingPaths(rule.mappings, 'mappings', error);
+	}
+
+	if (rule.static !== undefined) {
+		if (typeof rule.static !== 'object' || rule.static === null || Array.isArray(rule.static)) {
+			error('static 必须为对象');
+		} else if (!isStringRecord(rule.static)) {
+			warn('static 中存在非字符串值，将按 String() 转换');
+		}
+	}
+
+	if (rule.staticFrom !== undefined && (typeof rule.staticFrom !== 'string' || !rule.staticFrom)) {
+		error('staticFrom 必须为非空字符串');
+	}
+
+	if (rule.envVars !== undefined) {
+		if (!Array.isArray(rule.envVars) || !rule.envVars.every((name: unknown) => typeof name === 'string' && /^[^*]+\*?$/.test(name))) {
+			error('envVars 必须为变量名或 PREFIX_* 形式前缀组成的数组（不允许单独使用 *）');
+		}
+	}
+
+	if (rule.requestVars !== undefined) {
+		/* 请求头仅允许精确名称，避免回显任意请求头(如 Cookie、Authorization) */
+		const entryPattern = /^(ip|(query|cf)\.([^*]+\*?|\*)|header\.[\w-]+)$/;
+		if (!Array.isArray(rule.requestVars) || !rule.requestVars.every((entry: unknown) => typeof entry === 'string' && entryPattern.test(entry))) {
+			error('requestVars 必须由 ip、query.名称、header.名称、cf.字段 组成，query 与 cf 支持 前缀* 形式，header 不支持通配');
+		}
+	}
+
+	if (rule.onError !== undefined && !ERROR_STRATEGIES.includes(rule.onError)) {
+		error(`onError 必须为 ${ERROR_STRATEGIES.join('/')} 之一，实际为 ${JSON.stringify(rule.onError)}`);
+	}
+
+	if (rule.cache !== undefined && (typeof rule.cache !== 'number' || rule.cache < 0)) {
+		error('cache 必须为非负数字（秒）');
+	}
+
+	if (rule.priority !== undefined && (typeof rule.priority !== 'number' || !isFinite(rule.priority))) {
+		error('priority 必须为数字');
+	}
+
+	if (rule.stop !== undefined && typeof rule.stop !== 'boolean') {
+		error('stop 必须为布尔值');
+	}
+
+	return report.errors.length === errorCount;
+}
+
+/**
+ * @brief 校验 API 数据源的请求配置
+ *
+ * @param source 待校验的数据源
+ * @param label  数据源标识，如 api、sources[0]
+ * @param error  错误记录函数
+ * @param warn   警告记录函数
+ */
+function validateApiSource(source: any, label: string, error: (message: string) => void, warn: (message: string) => void): void {
+	if (typeof source !== 'object' || source === null || typeof source.url !== 'string' || !source.url) {
+		error(`${label}.url 必须为非空字符串`);
+		return;
+	}
+
+	for (const field of Object.keys(source)) {
+		if (!API_SOURCE_FIELDS.includes(field)) {
+			warn(`${label} 中存在未知字段 "${field}"`);
+		}
+	}
+
+	if (source.fallback !== undefined && (!Array.isArray(source.fallback) || !source.fallback.every((url: unknown) => typeof url === 'string' && url))) {
+		error(`${label}.fallback 必须为非空字符串数组`);
+	}
+	if (source.method !== undefined && typeof source.method !== 'string') {
+		error(`${label}.method 必须为字符串`);
+	}
+	if (source.headers !== undefined && !isStringRecord(source.headers)) {
+		error(`${label}.headers 必须为字符串键值对`);
+	}
+	if (source.timeout !== undefined && (typeof source.timeout !== 'number' || source.timeout <= 0)) {
+		error(`${label}.timeout 必须为正数（毫秒）`);
+	}
+	if (source.retries !== undefined && (!Number.isInteger(source.retries) || source.retries < 0)) {
+		error(`${label}.retries 必须为非负整数`);
+	}
+	for (const field of ['maxStale', 'negativeCache']) {
+		if (source[field] !== undefined && (typeof source[field] !== 'number' || source[field] < 0)) {
+			error(`${label}.${field} 必须为非负数字（秒）`);
+		}
+	}
+}
+
+/**
+ * @brief 校验映射中的 JSON 路径语法
+ *
+ * @param mappings 占位符到 JSON 路径的映射
+ * @param label    映射标识，如 mappings、sources[0].mappings
+ * @param error    错误记录函数
+ */
+function validateMappingPaths(mappings: Record<string, string>, label: string, error: (message: string) => void): void {
+	for (const [placeholder, jsonPath] of Object.entries(mappings)) {
+		try {
+			parseJsonPath(jsonPath);
+		} catch (e) {
+			error(`${label}.${placeholder}: ${(e as Error).message}`);
+		}
+	}
+}
+
+/**
+ * @brief 解析并校验替换配置
+ *
+ * 配置可以是规则数组，也可以是 { rules, values } 对象；后者的 values 为命名值表，
+ * 规则通过 staticFrom 引用，引用的值表作为基础、规则自身的 static 覆盖同名项。
+ *
+ * @param configStr 替换配置 JSON(来自 REPLACE_KV 或 REPLACE_CONFIG)
+ * @return 校验结果，仅包含通过校验的规则
+ */
+function validateReplaceConfig(configStr: string | undefined): ReplaceConfigReport {
+	const report: ReplaceConfigReport = { rules: [], errors: [], warnings: [] };
+
+	if (!configStr) {
+		return report;
+	}
+
+	let config: any;
+	try {
+		config = JSON.parse(configStr);
+	} catch (e) {
+		report.errors.push(`REPLACE_CONFIG 不是合法的 JSON: ${(e as Error).message}`);
+		return report;
+	}
+
+	let valueMaps: Record<string, unknown> = {};
+	if (typeof config === 'object' && config !== null && !Array.isArray(config)) {
+		if (config.values !== undefined) {
+			if (typeof config.values !== 'object' || config.values === null || Array.isArray(config.values)) {
+				report.errors.push('REPLACE_CONFIG.values 必须为 名称 → 值表 的对象');
+			} else {
+				valueMaps = config.values;
+			}
+		}
+		config = config.rules;
+	}
+
+	if (!Array.isArray(config)) {
+		report.errors.push('REPLACE_CONFIG 顶层必须为规则数组，或包含 rules 数组的对象');
+		return report;
+	}
+
+	config.forEach((rule, index) => {
+		const label = `规则 #${index}`;
+		if (!validateReplaceRule(rule, label, report)) {
+			return;
+		}
+		if (rule.staticFrom !== undefined) {
+			const valueMap = valueMaps[rule.staticFrom];
+			if (typeof valueMap !== 'object' || valueMap === null || Array.isArray(valueMap)) {
+				report.errors.push(`${label}: staticFrom 引用的值表 "${rule.staticFrom}" 不存在`);
+				return;
+			}
+			rule = { ...rule, static: { ...valueMap, ...rule.static } };
+		}
+		report.rules.push(rule);
+	});
+
+	return report;
+}
+
+// KV 替换配置的隔离内缓存，null 表示 KV 中没有配置
+let replaceKvCache: { config: string | null; expires: number } | null = null;
+
+/**
+ * @brief 读取当前生效的替换配置
+ *
+ * 绑定 REPLACE_KV 且其中存在配置时优先使用(隔离内缓存 30 秒)，
+ * 否则回退到 REPLACE_CONFIG 环境变量；KV 读取失败时同样回退。
+ *
+ * @param env 运行时环境变量
+ * @return 配置来源与配置 JSON
+ */
+async function loadReplaceConfig(env: GithubProxyEnv): Promise<{ source: 'kv' | 'env'; config: string | undefined }> {
+	if (env.REPLACE_KV) {
+		const now = Date.now();
+		if (!replaceKvCache || replaceKvCache.expires <= now) {
+			try {
+				replaceKvCache = { config: await env.REPLACE_KV.get(REPLACE_KV_KEY), expires: now + REPLACE_KV_CACHE_TTL };
+			} catch (error) {
+				console.error('读取 REPLACE_KV 失败，回退至 REPLACE_CONFIG:', error);
+				replaceKvCache = null;
+			}
+		}
+		if (replaceKvCache?.config) {
+			return { source: 'kv', config: replaceKvCache.config };
+		}
+	}
+
+	return { source: 'env', config: env.REPLACE_CONFIG };
+}
+
+/**
+ * @brief JSON 路径片段
+ */
+type JsonPathSegment = { raw: string } & (
+	| { type: 'key'; key: string }
+	| { type: 'index'; index: number }
+	| { type: 'wildcard' }
+	| { type: 'filter'; path: JsonPathSegment[]; operator?: string; operand?: any }
+);
+
+/**
+ * @brief 查找与 [ 匹配的 ]，跳过引号内的内容
+ *
+ * @param path  JSON 路径
+ * @param start [ 所在位置
+ * @return ] 所在位置，未闭合返回 -1
+ */
+function findBracketEnd(path: string, start: number): number {
+	let depth = 0;
+	let quote = '';
+
+	for (let i = start; i < path.length; i++) {
+		const char = path[i];
+		if (quote) {
+			if (char === '\\') {
+				i++;
+			} else if (char === quote) {
+				quote = '';
+			}
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === '[') {
+			depth++;
+		} else if (char === ']' && --depth === 0) {
+			return i;
+		}
+	}
+
+	return -1;
+}
+
+/**
+ * @brief 解析过滤表达式中的字面量
+ *
+ * @param text 字面量文本
+ * @return 字符串、数字、布尔值或 null，无法识别时返回 undefined
+ */
+function parseJsonPathLiteral(text: string): any {
+	if (/^"(?:[^"\\]|\\.)*"$/.test(text)) {
+		return JSON.parse(text);
+	}
+	if (/^'(?:[^'\\]|\\.)*'$/.test(text)) {
+		return text.slice(1, -1).replace(/\\(.)/g, '$1');
+	}
+	if (/^-?\d+(\.\d+)?$/.test(text)) {
+		return Number(text);
+	}
+	return ({ true: true, false: false, null: null } as Record<string, any>)[text];
+}
+
+/**
+ * @brief 解析 JSON 路径
+ *
+ * 支持的语法:
+ *  - a.b / a[0] / a.0    键与数组下标，负数下标从末尾计数，如 a[-1]
+ *  - a["k.x"] / a['k']   带特殊字符的键
+ *  - a[*] / a.*          通配，取所有元素或属性值
+ *  - a[?(@.k == "v")]    过滤，支持 == != > >= < <=，省略比较时判断字段是否存在且不为 false
+ * 开头的 $ 可省略。
+ *
+ * @param path JSON 路径
+ * @return 路径片段列表，语法错误时抛出错误
+ */
+function parseJsonPath(path: string): JsonPathSegment[] {
+	const segments: JsonPathSegment[] = [];
+	const fail = (position: number, reason: string): never => {
+		throw new Error(`JSON 路径 "${path}" 无效: 第 ${position + 1} 个字符处${reason}`);
+	};
+	let i = path.startsWith('$') ? 1 : 0;
+
+	while (i < path.length) {
+		const start = i;
+
+		if (path[i] === '[') {
+			const end = findBracketEnd(path, i);
+			if (end < 0) {
+				fail(i, '的 [ 未闭合');
+			}
+			const inner = path.slice(i + 1, end).trim();
+			const raw = path.slice(i, end + 1);
+			i = end + 1;
+
+			if (inner === '*') {
+				segments.push({ raw, type: 'wildcard' });
+			} else if (/^-?\d+$/.test(inner)) {
+				segments.push({ raw, type: 'index', index: Number(inner) });
+			} else if (/^("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')$/.test(inner)) {
+				segments.push({ raw, type: 'key', key: parseJsonPathLiteral(inner) });
+			} else if (inner.startsWith('?')) {
+				const expression = inner.slice(1).trim().replace(/^\((.*)\)$/, '$1').trim();
+				const match = expression.match(/^(.*?)\s*(==|!=|>=|<=|>|<)\s*(.*)$/);
+				const operand = match ? parseJsonPathLiteral(match[3]) : undefined;
+				const field = (match ? match[1] : expression).replace(/^@/, '');
+				if (!expression || (match && operand === undefined) || /\s/.test(field.replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/g, ''))) {
+					fail(start, `的过滤表达式无法识别: ${inner}`);
+				}
+				segments.push({ raw, type: 'filter', path: parseJsonPath(field), operator: match?.[2], operand });
+			} else {
+				fail(start, `的下标无法识别: [${inner}]`);
+			}
+			continue;
+		}
+
+		if (path[i] === '.') {
+			i++;
+		} else if (segments.length || start > 0) {
+			fail(i, '缺少 . 或 [');
+		}
+
+		const key = path.slice(i).match(/^[^.[\]]+/)?.[0];
+		if (!key) {
+			fail(i, '缺少键名');
+		}
+		i += key!.length;
+
+		if (key === '*') {
+			segments.push({ raw: path.slice(start, i), type: 'wildcard' });
+		} else if (/^-?\d+$/.test(key!)) {
+			segments.push({ raw: path.slice(start, i), type: 'index', index: Number(key) });
+		} else {
+			segments.push({ raw: path.slice(start, i), type: 'key', key: key! });
+		}
+	}
+
+	return segments;
+}
+
+/**
+ * @brief 按 JSON 路径片段求值
+ *
+ * 通配与过滤产生结果列表，其后的键作用于列表中的每个元素(忽略缺失值)，
+ * 下标则从列表中选取，如 results[?(@.status == "active")][0].host 取第一个匹配项。
+ *
+ * @param obj      JSON 对象
+ * @param segments 路径片段
+ * @return 求值结果；无法解析时 value 为 undefined，failedAt 为失败片段的序号
+ */
+function resolveJsonPath(obj: any, segments: JsonPathSegment[]): { value: any; failedAt?: number } {
+	const children = (value: any): any[] =>
+		Array.isArray(value) ? value : typeof value === 'object' && value !== null ? Object.values(value) : [];
+	let current = obj;
+	let projected = false;
+
+	for (const [index, segment] of segments.entries()) {
+		switch (segment.type) {
+			case 'key':
+				current = projected
+					? current.map((item: any) => item?.[segment.key]).filter((item: any) => item !== undefined)
+					: current?.[segment.key];
+				break;
+			case 'index':
+				// 负数下标从末尾计数
+				current = current?.[segment.index < 0 && typeof current.length === 'number' ? current.length + segment.index : segment.index];
+				projected = false;
+				break;
+			case 'wildcard':
+			case 'filter': {
+				const items: any[] = projected ? current.flatMap(children) : children(current);
+				current = segment.type === 'wildcard' ? items : items.filter((item) => matchesJsonPathFilter(item, segment));
+				projected = true;
+				break;
+			}
+		}
+
+		if (current === undefined || (current === null && index < segments.length - 1)) {
+			return { value: undefined, failedAt: index };
+		}
+	}
+
+	return { value: current };
+}
+
+/**
+ * @brief 判断元素是否满足过滤条件
+ *
+ * @param item   数组元素或属性值
+ * @param filter 过滤片段
+ * @return 满足条件返回 true
+ */
+function matchesJsonPathFilter(item: any, filter: Extract<JsonPathSegment, { type: 'filter' }>): boolean {
+	const { value } = resolveJsonPath(item, filter.path);
+	const operand = filter.operand;
+
+	switch (filter.operator) {
+		case '==': return value === operand;
+		case '!=': return value !== operand;
+		case '>': return value !== undefined && value !== null && value > operand;
+		case '>=': return value !== undefined && value !== null && value >= operand;
+		case '<': return value !== undefined && value !== null && value < operand;
+		case '<=': return value !== undefined && value !== null && value <= operand;
+		default: return value !== undefined && value !== null && value !== false;
+	}
+}
+
+/**
+ * @brief 从 JSON 对象中根据路径提取值
+ *
+ * 支持嵌套访问，如 "results.0.proxy_address"，完整语法见 parseJsonPath。
+ * 
+ * @param obj JSON 对象
+ * @param path 访问路径
+ * @return 提取的值，未找到则返回 undefined；路径语法错误时抛出错误
+ */
+function getValueByPath(obj: any, path: string): any {
+	return resolveJsonPath(obj, parseJsonPath(path)).value;
+}
+
+/**
+ * @brief 将 API 数据按映射写入替换值
+ *
+ * 路径无法解析时记录失败的片段，便于排查 API 响应结构的变化。
+ *
+ * @param data     API 响应数据
+ * @param mappings 占位符到 JSON 路径的映射
+ * @param prefix   替换值名称前缀，如 "infra."
+ * @param values   替换值映射
+ */
+function applyMappings(data: any, mappings: Record<string, string>, prefix: string, values: Record<string, any>): void {
+	for (const [placeholder, jsonPath] of Object.entries(mappings)) {
+		try {
+			const segments = parseJsonPath(jsonPath);
+			const { value, failedAt } = resolveJsonPath(data, segments);
+			if (value !== undefined) {
+				values[prefix + placeholder] = value;
+			} else {
+				console.warn(`[Replace] 映射 ${prefix}${placeholder}: 路径 "${jsonPath}" 在 "${segments[failedAt ?? 0]?.raw ?? jsonPath}" 处无法解析`);
+			}
+		} catch (error) {
+			console.error(`[Replace] 映射 ${prefix}${placeholder}:`, (error as Error).message);
+		}
+	}
+}
+
+/**
+ * @brief 请求 API 数据源
+ *
+ * 依次尝试主地址与备用地址，每个地址在网络错误、超时或 5xx 时按 retries 重试；
+ * 4xx 视为该地址不可用，直接尝试下一个地址。
+ *
+ * @param source API 数据源
+ * @return API 响应数据，全部地址失败返回 null
+ */
+async function requestApiSource(source: ApiSource): Promise<any | null> {
+	for (const url of [source.url, ...(source.fallback || [])]) {
+		for (let attempt = 0; attempt <= (source.retries || 0); attempt++) {
+			try {
+				const response = await fetch(url, {
+					method: source.method || 'GET',
+					headers: source.headers || {},
+					signal: source.timeout ? AbortSignal.timeout(source.timeout) : undefined,
+				});
+				
+				if (!response.ok) {
+					console.error(`API 请求失败: ${response.status} ${response.statusText} (${url})`);
+					if (response.status < 500) {
+						break;
+					}
+					continue;
+				}
+				
+				return await response.json();
+			} catch (error) {
+				console.error(`获取 API 数据失败 (${url}):`, error);
+			}
+		}
+	}
+	
+	return null;
+}
+
+/**
+ * @brief 构建 API 缓存条目在 Cache API 中的键
+ *
+ * @param key 数据源缓存键
+ * @return 缓存键请求
+ */
+async function buildApiCacheKey(key: string): Promise<Request> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+	return new Request(`${CACHE_KEY_ORIGIN}/__api/${toHex(digest)}`);
+}
+
+/**
+ * @brief 从 Cache API 读取 API 缓存条目
+ *
+ * @param key 数据源缓存键
+ * @return 缓存条目，不存在或读取失败返回 null
+ */
+async function readApiCacheEntry(key: string): Promise<ApiCacheEntry | null> {
+	try {
+		const cached = await caches.default.match(await buildApiCacheKey(key));
+		return cached ? await cached.json<ApiCacheEntry>() : null;
+	} catch (error) {
+		console.error('读取 API 缓存失败:', error);
+		return null;
+	}
+}
+
+/**
+ * @brief 将 API 缓存条目写入 Cache API
+ *
+ * @param key    数据源缓存键
+ * @param entry  缓存条目
+ * @param maxAge 保留时长(秒)
+ */
+async function writeApiCacheEntry(key: string, entry: ApiCacheEntry, maxAge: number): Promise<void> {
+	try {
+		const body = JSON.stringify(entry);
+		await caches.default.put(
+			await buildApiCacheKey(key),
+			new Response(body, { headers: { 'Content-Type': 'application/json', 'Cache-Control': `max-age=${Math.ceil(maxAge)}` } })
+		);
+	} catch (error) {
+		console.error('写入 API 缓存失败:', error);
+	}
+}
+
+/**
+ * @brief 刷新 API 缓存
+ *
+ * 成功时保存新数据；失败时记录失败时间并保留上一次成功的数据(负缓存)。
+ * 同一数据源的并发刷新共用同一个请求。
+ *
+ * @param key      数据源缓存键
+ * @param source   API 数据源
+ * @param previous 当前缓存条目
+ * @return 新数据，失败返回 null
+ */
+function refreshApiCache(key: string, source: ApiSource, previous: ApiCacheEntry | undefined): Promise<any | null> {
+	const pending = apiRefreshes.get(key);
+	if (pending) {
+		return pending;
+	}
+
+	const refresh = (async () => {
+		const data = await requestApiSource(source);
+		const entry: ApiCacheEntry = data !== null ? { data, fetchedAt: Date.now() } : { ...previous, failedAt: Date.now() };
+		apiCache.set(key, entry);
+		await writeApiCacheEntry(
+			key,
+			entry,
+			Math.max((source.cache || 0) + (source.maxStale || 0), source.negativeCache ?? DEFAULT_API_NEGATIVE_CACHE)
+		);
+		return data;
+	})().finally(() => apiRefreshes.delete(key));
+
+	apiRefreshes.set(key, refresh);
+	return refresh;
+}
+
+/**
+ * @brief 从 API 获取替换数据（带缓存）
+ *
+ * 配置 cache 后启用两级缓存(隔离内存 + Cache API)与 stale-while-revalidate:
+ *  - 未过期: 直接返回缓存
+ *  - 过期但未超过 maxStale: 返回旧值，并通过 ctx.waitUntil 在后台刷新
+ *  - 超过 maxStale 或无缓存: 同步请求
+ * 刷新失败后的 negativeCache 时长内不再请求，期间仍可返回未超过 maxStale 的旧值。
+ *
+ * @param source API 数据源
+ * @param ctx    执行上下文
+ * @return API 响应数据，失败返回 null
+ */
+async function fetchReplacementData(source: ApiSource, ctx: ExecutionContext): Promise<any | null> {
+	const ttl = (source.cache || 0) * 1000; // 转换为毫秒
+	if (ttl <= 0) {
+		return requestApiSource(source);
+	}
+
+	// 检查缓存，隔离内缓存不新鲜时以 Cache API 中更新的条目为准
+	const key = JSON.stringify([source.url, source.fallback, source.method, source.headers]);
+	const now = Date.now();
+	const updatedAt = (entry: ApiCacheEntry | null | undefined) => Math.max(entry?.fetchedAt ?? 0, entry?.failedAt ?? 0);
+	let entry = apiCache.get(key);
+
+	if (!entry?.fetchedAt || now - entry.fetchedAt >= ttl) {
+		const stored = await readApiCacheEntry(key);
+		if (stored && updatedAt(stored) > updatedAt(entry)) {
+			entry = stored;
+			apiCache.set(key, entry);
+		}
+	}
+
+	const age = entry?.fetchedAt !== undefined ? now - entry.fetchedAt : Infinity;
+	if (age < ttl) {
+		return entry!.data;
+	}
+
+	const stale = age < ttl + (source.maxStale || 0) * 1000 ? entry!.data : null;
+
+	// 最近刷新失败，负缓存期内不再请求
+	if (entry?.failedAt !== undefined && now - entry.failedAt < (source.negativeCache ?? DEFAULT_API_NEGATIVE_CACHE) * 1000) {
+		return stale;
+	}
+
+	if (stale !== null) {
+		ctx.waitUntil(refreshApiCache(key, source, entry));
+		return stale;
+	}
+
+	return refreshApiCache(key, source, entry);
+}
+
+/* 代理自身的凭据及可能含凭据的配置，envVars 无论如何配置均不可读取 */
+const PROTECTED_ENV_VARS = [
+	'GH_TOKEN',
+	'GH_TOKENS',
+	'GH_APP_ID',
+	'GH_APP_PRIVATE_KEY',
+	'GH_APP_INSTALLATION_ID',
+	'URL_SIGNING_KEY',
+	'ADMIN_TOKEN',
+	'CACHE_BYPASS_KEY',
+	'AUTH_PATHS',
+	'ROUTES',
+	'REPLACE_CONFIG',
+	'REPLACE_ENV_VARS',
+];
+
+/**
+ * @brief 判断变量名是否命中 envVars 形式的条目
+ *
+ * @param name    变量名
+ * @param entries 精确名称或 PREFIX_* 形式的前缀
+ * @return 命中返回 true
+ */
+function matchesEnvVarEntry(name: string, entries: string[]): boolean {
+	return entries.some((entry) => (entry.endsWith('*') ? name.startsWith(entry.slice(0, -1)) : name === entry));
+}
+
+/**
+ * @brief 读取规则允许的环境变量与 Secret
+ *
+ * 仅读取字符串类型的绑定，名称需精确匹配 envVars 中的条目或以 PREFIX_* 的前缀开头。
+ * 规则可经 PUT /__config 在线修改，因此另有两层限制:
+ *  - PROTECTED_ENV_VARS 中的变量始终不可读取；
+ *  - 配置 REPLACE_ENV_VARS 时，变量还需命中其中的条目。
+ *
+ * @param rule 替换规则
+ * @param env  运行时环境变量
+ * @return 变量名到值的映射
+ */
+function collectEnvValues(rule: ReplaceRule, env: GithubProxyEnv): Record<string, string> {
+	const values: Record<string, string> = {};
+	const allowlist = rule.envVars || [];
+	const scope = env.REPLACE_ENV_VARS ? env.REPLACE_ENV_VARS.split(/[\s,]+/).filter(Boolean) : null;
+
+	for (const [name, value] of Object.entries(env)) {
+		if (typeof value !== 'string' || PROTECTED_ENV_VARS.includes(name) || (scope && !matchesEnvVarEntry(name, scope))) {
+			continue;
+		}
+		if (matchesEnvVarEntry(name, allowlist)) {
+			values[name] = value;
+		}
+	}
+
+	return values;
+}
+
+/**
+ * @brief 读取规则允许的请求值
+ *
+ * 以 request.query.名称、request.header.名称、request.cf.字段 与 request.ip 为键，
+ * 请求头名称沿用 requestVars 中的写法；同名查询参数取第一个值。
+ *
+ * @param rule    替换规则
+ * @param request 客户端请求
+ * @return 替换值名称到值的映射，缺失的请求值不写入
+ */
+function collectRequestValues(rule: ReplaceRule, request: Request): Record<string, any> {
+	const values: Record<string, any> = {};
+	const query = [...new URL(request.url).searchParams];
+	const cf = Object.entries((request.cf || {}) as Record<string, unknown>);
+
+	for (const entry of rule.requestVars || []) {
+		if (entry === 'ip') {
+			const ip = request.headers.get('CF-Connecting-IP');
+			if (ip) {
+				values['request.ip'] = ip;
+			}
+			continue;
+		}
+
+		const [kind, name] = [entry.slice(0, entry.indexOf('.')), entry.slice(entry.indexOf('.') + 1)];
+		if (kind === 'header') {
+			const value = request.headers.get(name);
+			if (value !== null) {
+				values[`request.header.${name}`] = value;
+			}
+			continue;
+		}
+
+		for (const [key, value] of kind === 'query' ? query : cf) {
+			const matched = name.endsWith('*') ? key.startsWith(name.slice(0, -1)) : key === name;
+			if (matched && value !== undefined && !(`request.${kind}.${key}` in values)) {
+				values[`request.${kind}.${key}`] = value;
+			}
+		}
+	}
+
+	return values;
+}
+
+/**
+ * @brief 以已收集的替换值展开数据源地址中的占位符
+ *
+ * 地址与备用地址中的 {{名称 | 过滤器}} 求值后经 URL 编码写入，
+ * 如 https://api.example.com/{{request.cf.country | lower}}/settings。
+ *
+ * @param source 数据源配置
+ * @param values 替换值映射
+ * @return 展开后的数据源配置，占位符缺少替换值时返回 null
+ */
+function resolveSourceUrls<T extends ApiSource>(source: T, values: Record<string, any>): T | null {
+	let missing: string | null = null;
+	const expand = (url: string) =>
+		url.replace(/\{\{([^}]+)\}\}/g, (match, expression) => {
+			const value = evaluatePlaceholder(expression, (name) => lookupReplacementValue(values, name));
+			if (value === undefined) {
+				missing ??= expression.trim();
+				return match;
+			}
+			return encodeURIComponent(value);
+		});
+
+	const resolved = { ...source, url: expand(source.url), fallback: source.fallback?.map(expand) };
+	if (missing !== null) {
+		console.warn(`[Replace] 数据源地址 ${source.url} 缺少替换值: ${missing}，已跳过请求`);
+		return null;
+	}
+	return resolved;
+}
+
+/**
+ * @brief 收集规则的替换值
+ *
+ * 依次写入请求值、环境变量、静态值、api 与 sources 的映射值，后者覆盖前者的同名项；
+ * 数据源地址可引用 api 与 sources 之前写入的值。值保留原始类型，由各替换模式自行转换。
+ *
+ * @param rule    替换规则
+ * @param context 执行上下文
+ * @return 替换值名称到值的映射
+ */
+async function collectReplacementValues(rule: ReplaceRule, context: ReplaceContext): Promise<Record<string, any>> {
+	const values: Record<string, any> = { ...collectRequestValues(rule, context.request), ...collectEnvValues(rule, context.env) };
+
+	if (rule.static) {
+		Object.assign(values, rule.static);
+	}
+
+	// 单一数据源与命名数据源并行获取，地址含未解析的占位符时跳过
+	const fetchSource = (source: ApiSource | null) => (source ? fetchReplacementData(source, context.ctx) : null);
+	const [apiData, ...sourceData] = await Promise.all([
+		rule.api && rule.mappings ? fetchSource(resolveSourceUrls({ ...rule.api, cache: rule.cache }, values)) : null,
+		...(rule.sources || []).map((source) => fetchSource(resolveSourceUrls(source, values))),
+	]);
+
+	if (apiData && rule.mappings) {
+		applyMappings(apiData, rule.mappings, '', values);
+	}
+
+	(rule.sources || []).forEach((source, index) => {
+		const data = sourceData[index];
+		if (data === null) {
+			return;
+		}
+		if (source.mappings) {
+			applyMappings(data, source.mappings, `${source.name}.`, values);
+		} else {
+			values[source.name] = data;
+		}
+	});
+
+	return values;
+}
+
+/* 占位符过滤器，如 {{name | default:"x" | upper}}；使用 Map 以免 toString 等原型成员被当作过滤器 */
+const PLACEHOLDER_FILTERS = new Map<string, (value: any, arg?: string) => any>([
+	['default', (value, arg) => (value === undefined || value === null || value === '' ? arg : value)],
+	['upper', (value) => String(value).toUpperCase()],
+	['lower', (value) => String(value).toLowerCase()],
+	['base64', (value) => btoa(String.fromCharCode(...new TextEncoder().encode(String(value))))],
+	['json', (value) => JSON.stringify(value)],
+	['urlencode', (value) => encodeURIComponent(String(value))],
+]);
+
+/**
+ * @brief 解析并求值占位符表达式
+ *
+ * 表达式由替换值名称与若干过滤器组成，以 | 分隔；过滤器参数以 : 引出，
+ * 可使用双引号、单引号或不加引号。default 以外的过滤器在值缺失时不执行。
+ *
+ * @param expression 占位符内的表达式，如 db_host | default:"localhost"
+ * @param lookup     按名称查找替换值，缺失时返回 undefined
+ * @return 求值结果，替换值缺失且无默认值时返回 undefined
+ */
+function evaluatePlaceholder(expression: string, lookup: (name: string) => any): string | undefined {
+	const [name, ...filters] = expression.match(/("(?:[^"\\]|\\.)*"|'[^']*'|[^|"'])+/g) || [''];
+	let value = lookup(name.trim());
+
+	for (const filter of filters) {
+		const match = filter.match(/^\s*([\w-]+)\s*(?::\s*(.*?))?\s*$/);
+		const apply = match && PLACEHOLDER_FILTERS.get(match[1]);
+		if (!apply) {
+			throw new Error(`未知的占位符过滤器: ${filter.trim()}`);
+		}
+		if (value === undefined && match[1] !== 'default') {
+			continue;
+		}
+
+		let arg = match[2];
+		if (arg?.startsWith('"')) {
+			arg = JSON.parse(arg);
+		} else if (arg?.startsWith("'")) {
+			arg = arg.slice(1, -1);
+		}
+		value = apply(value, arg);
+	}
+
+	return value === undefined ? undefined : String(value);
+}
+
+/**
+ * @brief 在替换值中查找变量
+ *
+ * 优先按名称精确匹配，否则按 JSON 路径访问，如 {{infra.api_host}}。
+ *
+ * @param values 替换值映射
+ * @param name   变量名或路径
+ * @return 变量值，未找到返回 undefined
+ */
+function lookupReplacementValue(values: Record<string, any>, name: string): any {
+	if (name in values) {
+		return values[name];
+	}
+	try {
+		return getValueByPath(values, name);
+	} catch (e) {
+		// 名称不是合法的 JSON 路径，视为未找到
+		return undefined;
+	}
+}
+
+/**
+ * @brief 获取规则的错误处理策略
+ *
+ * structured 模式默认为 error，使无法解析的文档不会被原样返回。
+ *
+ * @param rule 替换规则
+ * @return 错误处理策略
+ */
+function resolveErrorStrategy(rule: ReplaceRule): 'keep' | 'remove' | 'error' {
+	return rule.onError || (rule.mode === 'structured' ? 'error' : 'keep');
+}
+
+/**
+ * @brief 根据规则执行内容替换
+ *
+ * @param content  原始内容
+ * @param resolved 已收集替换值的规则
+ * @param pathname 文件路径，用于 structured 模式识别文档格式
+ * @return 替换后的内容
+ */
+function applyReplaceRule(content: string, resolved: ResolvedReplaceRule, pathname: string): string {
+	const { rule, values } = resolved;
+	const errorStrategy = resolveErrorStrategy(rule);
+
+	if (rule.mode === 'structured') {
+		return applyStructuredReplace(content, rule, values, pathname, errorStrategy);
+	}
+
+	// 执行替换
+	let result = content;
+	
+	switch (rule.mode) {
+		case 'env':
+			// 环境变量占位符模式: ${env:variable_name | filter}
+			const envRegex = /\$\{env:([^}]+)\}/g;
+			result = content.replace(envRegex, (match, varName) => {
+				const value = evaluatePlaceholder(varName, (name) => lookupReplacementValue(values, name));
+				if (value !== undefined) {
+					return value;
+				}
+				// 处理未找到替换值的情况
+				switch (errorStrategy) {
+					case 'remove': return '';
+					case 'error': throw new Error(`找不到替换值: ${varName}`);
+					default: return match; // keep
+				}
+			});
+			break;
+			
+		case 'template':
+			// 模板字符串模式: {{variable_name | filter}}，支持 {{#if}} / {{#each}} 块
+			result = renderTemplate(parseTemplateBlocks(content), (name) => lookupReplacementValue(values, name), errorStrategy);
+			break;
+			
+		case 'regex':
+			// 自定义正则表达式模式
+			if (rule.pattern) {
+				try {
+					const regex = new RegExp(rule.pattern, 'g');
+					result = content.replace(regex, (match, ...groups) => {
+						// 如果有捕获组，使用第一个捕获组作为变量名
+						const varName = groups[0] || match;
+						const value = lookupReplacementValue(values, varName);
+						if (value !== undefined) {
+							return String(value);
+						}
+						switch (errorStrategy) {
+							case 'remove': return '';
+							case 'error': throw new Error(`找不到替换值: ${varName}`);
+							default: return match; // keep
+						}
+					});
+				} catch (e) {
+					console.error('正则表达式解析失败:', e);
+				}
+			}
+			break;
+	}
+	
+	return result;
+}
+
+/* 模板块标签: {{#if x}} {{#each x}} {{else}} {{/if}} {{/each}} */
+const TEMPLATE_BLOCK_TAG = /\{\{\s*(#if|#each|else|\/if|\/each)(?:\s+([^}]*?))?\s*\}\}/g;
+
+/**
+ * @brief 模板语法树节点，文本或条件/循环块
+ */
+type TemplateNode = string | { type: 'if' | 'each'; expression: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+/**
+ * @brief 将模板解析为文本与块组成的语法树
+ *
+ * 独占一行的块标签连同其换行一并移除，避免在输出中留下空行。
+ *
+ * @param content 模板内容
+ * @return 语法树，块标签不匹配时抛出错误
+ */
+function parseTemplateBlocks(content: string): TemplateNode[] {
+	const source = content.replace(new RegExp(`^[ \\t]*(${TEMPLATE_BLOCK_TAG.source})[ \\t]*(?:\\r?\\n|$)`, 'gm'), '$1');
+	const root: TemplateNode[] = [];
+	const stack: Array<Exclude<TemplateNode, string>> = [];
+	let target = root;
+	let lastIndex = 0;
+
+	for (const match of source.matchAll(TEMPLATE_BLOCK_TAG)) {
+		if (match.index! > lastIndex) {
+			target.push(source.slice(lastIndex, match.index));
+		}
+		lastIndex = match.index! + match[0].length;
+
+		const [tag, keyword, expression = ''] = match;
+		const open = stack[stack.length - 1];
+		if (keyword === '#if' || keyword === '#each') {
+			if (!expression) {
+				throw new Error(`模板块缺少变量: ${tag}`);
+			}
+			const node = { type: keyword.slice(1) as 'if' | 'each', expression, body: [], otherwise: [] };
+			target.push(node);
+			stack.push(node);
+			target = node.body;
+		} else if (keyword === 'else') {
+			if (!open || target === open.otherwise) {
+				throw new Error(`多余的模板标签: ${tag}`);
+			}
+			target = open.otherwise;
+		} else {
+			if (!open || open.type !== keyword.slice(1)) {
+				throw new Error(`模板块不匹配: ${tag}`);
+			}
+			stack.pop();
+			const parent = stack[stack.length - 1];
+			target = !parent ? root : parent.otherwise.length ? parent.otherwise : parent.body;
+		}
+	}
+
+	if (stack.length) {
+		throw new Error(`模板块未闭合: {{#${stack[stack.length - 1].type} ${stack[stack.length - 1].expression}}}`);
+	}
+	if (lastIndex < source.length) {
+		target.push(source.slice(lastIndex));
+	}
+	return root;
+}
+
+/**
+ * @brief 判断模板条件是否成立
+ *
+ * undefined、null、false、0、空字符串、"false" 与空数组视为不成立。
+ *
+ * @param value 变量值
+ * @return 条件成立返回 true
+ */
+function isTemplateTruthy(value: any): boolean {
+	if (Array.isArray(value)) {
+		return value.length > 0;
+	}
+	return !!value && value !== 'false';
+}
+
+/**
+ * @brief 渲染模板语法树
+ *
+ * 循环体内变量先相对当前元素查找(this 表示元素本身，@index 为下标)，
+ * 找不到时回退到外层作用域；../name 显式访问外层变量。
+ *
+ * @param nodes         语法树
+ * @param lookup        当前作用域的变量查找函数
+ * @param errorStrategy 错误处理策略
+ * @return 渲染结果
+ */
+function renderTemplate(nodes: TemplateNode[], lookup: (name: string) => any, errorStrategy: 'keep' | 'remove' | 'error'): string {
+	return nodes
+		.map((node) => {
+			if (typeof node === 'string') {
+				return node.replace(/\{\{([^}]+)\}\}/g, (match, varName) => {
+					varName = varName.trim();
+					const value = evaluatePlaceholder(varName, lookup);
+					if (value !== undefined) {
+						return value;
+					}
+					switch (errorStrategy) {
+						case 'remove': return '';
+						case 'error': throw new Error(`找不到替换值: ${varName}`);
+						default: return match; // keep
+					}
+				});
+			}
+
+			const value = lookup(node.expression);
+			if (node.type === 'if') {
+				return renderTemplate(isTemplateTruthy(value) ? node.body : node.otherwise, lookup, errorStrategy);
+			}
+
+			if (value !== undefined && value !== null && !Array.isArray(value)) {
+				throw new Error(`#each 的值不是数组: ${node.expression}`);
+			}
+			if (!value?.length) {
+				return renderTemplate(node.otherwise, lookup, errorStrategy);
+			}
+			return value
+				.map((item: any, index: number) =>
+					renderTemplate(node.body, (name) => {
+						if (name === 'this' || name === '.') {
+							return item;
+						}
+						if (name === '@index') {
+							return index;
+						}
+						if (name.startsWith('../')) {
+							return lookup(name.slice(3));
+						}
+						const path = name.startsWith('this.') ? name.slice(5) : name;
+						const relative = typeof item === 'object' && item !== null ? lookupReplacementValue(item, path) : undefined;
+						return relative !== undefined || name.startsWith('this.') ? relative : lookup(name);
+					}, errorStrategy)
+				)
+				.join('');
+		})
+		.join('');
+}
+
+/**
+ * @brief 识别 structured 模式的文档格式
+ *
+ * @param rule     替换规则
+ * @param pathname 文件路径
+ * @return 文档格式，无法识别时抛出错误
+ */
+function resolveStructuredFormat(rule: ReplaceRule, pathname: string): 'json' | 'yaml' {
+	if (rule.format) {
+		return rule.format;
+	}
+	if (/\.json$/i.test(pathname)) {
+		return 'json';
+	}
+	if (/\.ya?ml$/i.test(pathname)) {
+		return 'yaml';
+	}
+	throw new Error(`无法根据扩展名识别文档格式，请为规则配置 format: ${pathname}`);
+}
+
+/**
+ * @brief 按键路径结构化替换 JSON / YAML 文档中的值
+ *
+ * 键路径以 . 分隔，JSON 中的数组可使用数字下标。值保留原始类型，
+ * 由对应格式负责序列化与转义。缺少替换值时按错误策略处理:
+ * keep 保留原值，remove 删除该键，error 抛出错误。
+ *
+ * @param content       原始文档
+ * @param rule          替换规则
+ * @param values        替换值映射
+ * @param pathname      文件路径
+ * @param errorStrategy 错误处理策略
+ * @return 替换后的文档
+ */
+function applyStructuredReplace(
+	content: string,
+	rule: ReplaceRule,
+	values: Record<string, any>,
+	pathname: string,
+	errorStrategy: 'keep' | 'remove' | 'error'
+): string {
+	const format = resolveStructuredFormat(rule, pathname);
+	const updates: Array<{ path: string[]; value?: any; remove?: boolean }> = [];
+
+	for (const [keyPath, name] of Object.entries(rule.keys || {})) {
+		const path = keyPath.split('.');
+		const value = lookupReplacementValue(values, name);
+		if (value !== undefined) {
+			updates.push({ path, value });
+			continue;
+		}
+		switch (errorStrategy) {
+			case 'remove': updates.push({ path, remove: true }); break;
+			case 'error': throw new Error(`找不到替换值: ${name}`);
+			default: break; // keep
+		}
+	}
+
+	return format === 'json' ? updateJsonDocument(content, updates) : updateYamlDocument(content, updates);
+}
+
+/**
+ * @brief 更新 JSON 文档中的键值
+ *
+ * 父级容器必须存在，数组只能按范围内的下标访问；输出沿用原文档的缩进与结尾换行。
+ *
+ * @param content JSON 文档
+ * @param updates 待更新的键路径与值
+ * @return 序列化后的文档
+ */
+function updateJsonDocument(content: string, updates: Array<{ path: string[]; value?: any; remove?: boolean }>): string {
+	let document: any;
+	try {
+		document = JSON.parse(content);
+	} catch (e) {
+		throw new Error(`JSON 文档解析失败: ${(e as Error).message}`);
+	}
+
+	for (const { path, value, remove } of updates) {
+		let parent = document;
+		for (const key of path.slice(0, -1)) {
+			parent = typeof parent === 'object' && parent !== null ? parent[key] : undefined;
+		}
+		if (typeof parent !== 'object' || parent === null) {
+			throw new Error(`键路径不存在: ${path.join('.')}`);
+		}
+
+		/* 数组下必须为范围内的整数下标，否则 splice(NaN) 会误删首个元素 */
+		const key = path[path.length - 1];
+		if (Array.isArray(parent) && !(/^\d+$/.test(key) && Number(key) < parent.length)) {
+			throw new Error(`键路径不存在: ${path.join('.')}`);
+		}
+
+		if (!remove) {
+			parent[key] = value;
+		} else if (Array.isArray(parent)) {
+			parent.splice(Number(key), 1);
+		} else {
+			delete parent[key];
+		}
+	}
+
+	const indent = content.match(/^[ \t]+(?=\S)/m)?.[0] ?? '';
+	return JSON.stringify(document, null, indent) + (content.endsWith('\n') ? '\n' : '');
+}
+
+/* YAML 映射键行: 缩进、键(纯文本或引号)、冒号后的内容 */
+const YAML_KEY_LINE = /^( *)("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"{[\]}|>&!%@`,-][^:#]*?)[ \t]*:(?:[ \t]+(.*))?$/;
+
+/**
+ * @brief 解析 YAML 映射键行
+ *
+ * @param line 文档行
+ * @return 键行信息，非键行返回 null
+ */
+function parseYamlKeyLine(line: string): { indent: number; keyText: string; key: string; value: string; comment: string } | null {
+	const match = line.match(YAML_KEY_LINE);
+	if (!match) {
+		return null;
+	}
+
+	const [, spaces, keyText, rest = ''] = match;
+	let key = keyText.trim();
+	if (key.startsWith('"')) {
+		try {
+			key = JSON.parse(key);
+		} catch (e) {
+			key = key.slice(1, -1);
+		}
+	} else if (key.startsWith("'")) {
+		key = key.slice(1, -1).replace(/''/g, "'");
+	}
+
+	// 分离行尾注释，替换时原样保留
+	let value = rest.trimEnd();
+	let comment = '';
+	const quoted = value.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')/);
+	const commentStart = value.startsWith('#') ? 0 : value.slice(quoted?.[0].length ?? 0).search(/[ \t]+#/);
+	if (commentStart >= 0) {
+		const index = commentStart + (quoted?.[0].length ?? 0);
+		comment = index === 0 ? ` ${value}` : value.slice(index);
+		value = value.slice(0, index).trim();
+	}
+
+	return { indent: spaces.length, keyText: keyText.trim(), key, value, comment };
+}
+
+/**
+ * @brief 获取 YAML 文档行的缩进
+ *
+ * @param line 文档行
+ * @return 缩进空格数，空行、注释与文档标记返回 -1
+ */
+function yamlIndent(line: string): number {
+	if (!line.trim() || /^\s*#/.test(line) || /^(---|\.\.\.)(\s|$)|^%/.test(line)) {
+		return -1;
+	}
+	return line.length - line.trimStart().length;
+}
+
+/**
+ * @brief 判断 YAML 键的值是否为单行标量
+ *
+ * @param value 冒号后的值(不含注释)
+ * @return 为单行标量返回 true；嵌套块、块标量及跨行值返回 false
+ */
+function isYamlInlineScalar(value: string): boolean {
+	if (!value || /^[|>]/.test(value) || /^[&!]\S*$/.test(value)) {
+		return false;
+	}
+	if (/^["']/.test(value)) {
+		return /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')$/.test(value);
+	}
+	if (/^[[{]/.test(value)) {
+		return /[\]}]$/.test(value);
+	}
+	return true;
+}
+
+/**
+ * @brief 检查 YAML 文档的基本结构
+ *
+ * 仅识别常见的格式错误: 制表符缩进，以及单行标量值下出现更深缩进的键。
+ *
+ * @param lines 文档行
+ */
+function checkYamlStructure(lines: string[]): void {
+	let previous: ReturnType<typeof parseYamlKeyLine> = null;
+	let blockScalarIndent = -1;
+
+	lines.forEach((line, index) => {
+		if (/^ *\t/.test(line) && line.trim()) {
+			throw new Error(`YAML 文档解析失败: 第 ${index + 1} 行使用了制表符缩进`);
+		}
+
+		const indent = yamlIndent(line);
+		if (indent < 0) {
+			return;
+		}
+		// 跳过块标量(| 或 >)的正文
+		if (blockScalarIndent >= 0 && indent > blockScalarIndent) {
+			return;
+		}
+		blockScalarIndent = -1;
+
+		const entry = parseYamlKeyLine(line);
+		if (entry && previous && indent > previous.indent && isYamlInlineScalar(previous.value)) {
+			throw new Error(`YAML 文档解析失败: 第 ${index + 1} 行缩进有误`);
+		}
+		if (entry && /^[|>]/.test(entry.value)) {
+			blockScalarIndent = indent;
+		}
+		previous = entry;
+	});
+}
+
+/**
+ * @brief 在 YAML 文档中查找键路径对应的行
+ *
+ * 逐级在当前映射块中查找同缩进的键，仅支持块映射(不支持序列下标)。
+ *
+ * @param lines 文档行
+ * @param path  键路径
+ * @return 目标键所在的行号
+ */
+function findYamlKeyLine(lines: string[], path: string[]): number {
+	let start = 0;
+	let end = lines.length;
+	let found = -1;
+
+	path.forEach((segment, depth) => {
+		let childIndent = -1;
+		found = -1;
+
+		for (let i = start; i < end && found < 0; i++) {
+			const indent = yamlIndent(lines[i]);
+			if (indent < 0) {
+				continue;
+			}
+			if (childIndent < 0) {
+				childIndent = indent;
+			}
+			if (indent === childIndent && parseYamlKeyLine(lines[i])?.key === segment) {
+				found = i;
+			}
+		}
+
+		const entry = found >= 0 ? parseYamlKeyLine(lines[found])! : null;
+		if (!entry || (depth < path.length - 1 && (entry.value && !/^[&!]\S*$/.test(entry.value)))) {
+			throw new Error(`键路径不存在: ${path.join('.')}`);
+		}
+
+		// 下一级在该键的子块内查找
+		start = found + 1;
+		end = lines.length;
+		for (let i = start; i < lines.length; i++) {
+			const indent = yamlIndent(lines[i]);
+			if (indent >= 0 && indent <= childIndent) {
+				end = i;
+				break;
+			}
+		}
+	});
+
+	return found;
+}
+
+/**
+ * @brief 更新 YAML 文档中的键值
+ *
+ * 逐行定位并改写目标键，其余内容(注释、格式、键顺序)保持不变。
+ * 字符串以双引号形式写入，转义规则与 JSON 一致。
+ *
+ * @param content YAML 文档
+ * @param updates 待更新的键路径与值
+ * @return 更新后的文档
+ */
+function updateYamlDocument(content: string, updates: Array<{ path: string[]; value?: any; remove?: boolean }>): string {
+	const lines = content.split('\n');
+	checkYamlStructure(lines);
+
+	for (const { path, value, remove } of updates) {
+		const index = findYamlKeyLine(lines, path);
+		const entry = parseYamlKeyLine(lines[index])!;
+
+		if (!isYamlInlineScalar(entry.value)) {
+			throw new Error(`键 ${path.join('.')} 的值不是单行标量，无法替换`);
+		}
+
+		if (remove) {
+			lines.splice(index, 1);
+		} else {
+			lines[index] = `${' '.repeat(entry.indent)}${entry.keyText}: ${JSON.stringify(value ?? null)}${entry.comment}`;
+		}
+	}
+
+	return lines.join('\n');
+}
+
+/**
+ * @brief 判断文件路径是否匹配任一路径模式
+ *
+ * 支持精确匹配与通配符匹配:
+ *  - *  匹配除 / 外的任意字符
+ *  - ** 匹配任意字符(可跨目录)
+ *  - ?  匹配单个字符
+ *
+ * @param pathname 文件路径
+ * @param patterns 路径模式列表
+ * @return 任一模式匹配返回 true
+ */
+function matchesFilePattern(pathname: string, patterns: string[]): boolean {
+	// 解码 URL 编码的路径
+	let decodedPath = pathname;
+	try {
+		decodedPath = decodeURIComponent(pathname);
+	} catch (e) {
+		// 如果解码失败，使用原始路径
+	}
+	
+	const normalizedPath = decodedPath.startsWith('/') ? decodedPath : '/' + decodedPath;
+	
+	return patterns.some(file => {
+		const normalizedFile = file.startsWith('/') ? file : '/' + file;
+		
+		// 支持通配符匹配
+		if (normalizedFile.includes('*') || normalizedFile.includes('?')) {
+			// 将通配符模式转换为正则表达式
+			// 先保存通配符的位置
+			let pattern = normalizedFile
+				.replace(/\*\*/g, '\x00DOUBLESTAR\x00')  // 临时替换 **
+				.replace(/\*/g, '\x00STAR\x00')          // 临时替换 *
+				.replace(/\?/g, '\x00QUESTION\x00');     // 临时替换 ?
+			
+			// 转义其他正则特殊字符
+			pattern = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+			
+			// 将通配符转换为正则表达式
+			pattern = pattern
+				.replace(/\x00DOUBLESTAR\x00/g, '.*')      // ** 匹配任意字符
+				.replace(/\x00STAR\x00/g, '[^/]*')         // * 匹配非/字符
+				.replace(/\x00QUESTION\x00/g, '.');        // ? 匹配单个字符
+			
+			const regex = new RegExp(`^${pattern}$`);
+			return regex.test(normalizedPath);
+		}
+		
+		// 精确匹配
+		return normalizedPath === normalizedFile || normalizedPath.endsWith(normalizedFile);
+	});
+}
+
+/**
+ * @brief 找到所有匹配的替换规则
+ *
+ * 按 priority 降序排列(相同优先级保持配置顺序)，
+ * 遇到 stop 为 true 的规则后不再包含后续规则。
+ *
+ * @param pathname 文件路径
+ * @param rules 替换规则数组
+ * @return 按执行顺序排列的匹配规则，无匹配返回空数组
+ */
+function findMatchingRules(pathname: string, rules: ReplaceRule[]): ReplaceRule[] {
+	const matched = rules
+		.filter((rule) => matchesFilePattern(pathname, rule.files))
+		.map((rule, index) => ({ rule, index }))
+		.sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0) || a.index - b.index)
+		.map((item) => item.rule);
+
+	const stopIndex = matched.findIndex((rule) => rule.stop);
+	return stopIndex >= 0 ? matched.slice(0, stopIndex + 1) : matched;
+}
+
+/**
+ * @brief 并行收集各规则的替换值
+ *
+ * 单条规则收集失败时按其 onError 处理: error 策略向上抛出，其余策略跳过该规则。
+ *
+ * @param rules   按执行顺序排列的规则
+ * @param context 执行上下文
+ * @return 已收集替换值的规则，保持原有顺序
+ */
+async function resolveReplaceRules(rules: ReplaceRule[], context: ReplaceContext): Promise<ResolvedReplaceRule[]> {
+	const resolved = await Promise.all(
+		rules.map(async (rule) => {
+			try {
+				return { rule, values: await collectReplacementValues(rule, context) };
+			} catch (error) {
+				if (resolveErrorStrategy(rule) === 'error') {
+					throw error;
+				}
+				console.error('[Replace] 规则执行失败，已跳过:', error);
+				return null;
+			}
+		})
+	);
+
+	return resolved.filter((item): item is ResolvedReplaceRule => item !== null);
+}
+
+/**
+ * @brief 依次执行所有匹配的替换规则
+ *
+ * 每条规则的输出作为下一条规则的输入。单条规则失败时按其 onError 处理:
+ * error 策略向上抛出，其余策略跳过该规则并保留上一步的内容。
+ *
+ * @param content  原始内容
+ * @param rules    已收集替换值、按执行顺序排列的规则
+ * @param pathname 文件路径
+ * @return 替换后的内容
+ */
+function applyReplaceRules(content: string, rules: ResolvedReplaceRule[], pathname: string): string {
+	let result = content;
+
+	for (const resolved of rules) {
+		try {
+			result = applyReplaceRule(result, resolved, pathname);
+		} catch (error) {
+			if (resolveErrorStrategy(resolved.rule) === 'error') {
+				throw error;
+			}
+			console.error('[Replace] 规则执行失败，已跳过:', error);
+		}
+	}
+
+	return result;
+}
+
+/* ************************************************************************** */
+/*                         内容类型与字符集相关函数                              */
+/* ************************************************************************** */
+
+/**
+ * @brief 判断规则是否适用于该文件类型
+ *
+ * 配置 types 时按扩展名或 MIME 类型(支持 text/* 形式)匹配；
+ * 未配置时跳过图片、压缩包等二进制 MIME 类型。
+ *
+ * @param rule        替换规则
+ * @param pathname    文件路径
+ * @param contentType 上游响应的 Content-Type
+ * @return 适用返回 true
+ */
+function isReplaceableType(rule: ReplaceRule, pathname: string, contentType: string): boolean {
+	if (!rule.types) {
+		return !BINARY_CONTENT_TYPE.test(contentType);
+	}
+
+	const mime = contentType.split(';')[0].trim().toLowerCase();
+	return rule.types.some((entry) => {
+		const type = entry.toLowerCase();
+		if (type.startsWith('.')) {
+			return pathname.toLowerCase().endsWith(type);
+		}
+		return type.endsWith('/*') ? mime.startsWith(type.slice(0, -1)) : mime === type;
+	});
+}
+
+/**
+ * @brief 识别文件字符集
+ *
+ * 优先级: BOM > 规则的 charset > Content-Type 中的 charset > UTF-8；
+ * 无法识别的 Content-Type 字符集按 UTF-8 处理。
+ *
+ * @param head        文件开头的字节
+ * @param contentType 上游响应的 Content-Type
+ * @param rules       适用的规则，取第一条配置了 charset 的规则
+ * @return 字符集识别结果
+ */
+function detectCharset(head: Uint8Array, contentType: string, rules: ReplaceRule[]): TextCharset {
+	for (const [encoding, bom] of Object.entries(CHARSET_BOMS)) {
+		if (bom.every((byte, index) => head[index] === byte)) {
+			return { encoding, bom: true };
+		}
+	}
+
+	const declared = rules.find((rule) => rule.charset)?.charset ?? contentType.match(/charset\s*=\s*"?([^";\s]+)/i)?.[1];
+	try {
+		return { encoding: new TextDecoder(declared || 'utf-8').encoding, bom: false };
+	} catch (e) {
+		return { encoding: 'utf-8', bom: false };
+	}
+}
+
+/**
+ * @brief 嗅探内容是否为二进制
+ *
+ * 与 git 相同，开头若干字节中出现 NUL 即视为二进制；UTF-16 文本本身含 NUL，不做判断。
+ *
+ * @param head    文件开头的字节
+ * @param charset 字符集识别结果
+ * @return 二进制返回 true
+ */
+function isBinaryContent(head: Uint8Array, charset: TextCharset): boolean {
+	return !charset.encoding.startsWith('utf-16') && head.subarray(0, BINARY_SNIFF_LENGTH).includes(0);
+}
+
+/**
+ * @brief 计算替换结果的输出编码
+ *
+ * UTF-8 与 UTF-16 按原编码写回；GBK 等编码无法在 Worker 中编码，改以 UTF-8 输出。
+ *
+ * @param charset 字符集识别结果
+ * @return 输出编码
+ */
+function resolveOutputEncoding(charset: TextCharset): 'utf-8' | 'utf-16le' | 'utf-16be' {
+	return charset.encoding === 'utf-16le' || charset.encoding === 'utf-16be' ? charset.encoding : 'utf-8';
+}
+
+/**
+ * @brief 按输出编码编码文本
+ *
+ * @param text     文本
+ * @param encoding 输出编码
+ * @param bom      是否在开头写入 BOM
+ * @return 编码后的字节
+ */
+function encodeText(text: string, encoding: 'utf-8' | 'utf-16le' | 'utf-16be', bom: boolean): Uint8Array {
+	const prefix = bom ? CHARSET_BOMS[encoding] : [];
+	if (encoding === 'utf-8') {
+		const body = new TextEncoder().encode(text);
+		const bytes = new Uint8Array(prefix.length + body.length);
+		bytes.set(prefix);
+		bytes.set(body, prefix.length);
+		return bytes;
+	}
+
+	const bytes = new Uint8Array(prefix.length + text.length * 2);
+	const view = new DataView(bytes.buffer);
+	bytes.set(prefix);
+	for (let i = 0; i < text.length; i++) {
+		view.setUint16(prefix.length + i * 2, text.charCodeAt(i), encoding === 'utf-16le');
+	}
+	return bytes;
+}
+
+/**
+ * @brief 创建文本编码转换流，首个分块前按需写入 BOM
+ *
+ * @param encoding 输出编码
+ * @param bom      是否写入 BOM
+ * @return 编码转换流
+ */
+function createEncodeStream(encoding: 'utf-8' | 'utf-16le' | 'utf-16be', bom: boolean): TransformStream<string, Uint8Array> {
+	return new TransformStream<string, Uint8Array>({
+		start(controller) {
+			if (bom) {
+				controller.enqueue(new Uint8Array(CHARSET_BOMS[encoding]));
+			}
+		},
+		transform(chunk, controller) {
+			controller.enqueue(encodeText(chunk, encoding, false));
+		},
+	});
+}
+
+/**
+ * @brief 读取响应体开头的字节，并返回可继续完整读取的响应体
+ *
+ * @param body   响应体
+ * @param length 至少读取的字节数(响应体较短时读取全部)
+ * @return 开头的字节与包含全部内容的新响应体
+ */
+async function peekBody(body: ReadableStream<Uint8Array>, length: number): Promise<{ head: Uint8Array; body: ReadableStream<Uint8Array> }> {
+	const reader = body.getReader();
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+
+	while (size < length) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		chunks.push(value);
+		size += value.length;
+	}
+
+	const head = new Uint8Array(size);
+	chunks.reduce((offset, chunk) => (head.set(chunk, offset), offset + chunk.length), 0);
+
+	const rest = new ReadableStream<Uint8Array>({
+		start(controller) {
+			if (head.length) {
+				controller.enqueue(head);
+			}
+		},
+		async pull(controller) {
+			const { done, value } = await reader.read();
+			if (done) {
+				controller.close();
+			} else {
+				controller.enqueue(value);
+			}
+		},
+		cancel(reason) {
+			return reader.cancel(reason);
+		},
+	});
+
+	return { head, body: rest };
+}
+
+/* ************************************************************************** */
+/*                           流式替换相关函数                                   */
+/* ************************************************************************** */
+
+/**
+ * @brief 解析流式替换的文件大小阈值
+ *
+ * @param env 运行时环境变量
+ * @return 阈值字节数
+ */
+function resolveStreamThreshold(env: GithubProxyEnv): number {
+	const configured = Number(env.REPLACE_STREAM_THRESHOLD);
+	return env.REPLACE_STREAM_THRESHOLD && Number.isFinite(configured) ? configured : DEFAULT_REPLACE_STREAM_THRESHOLD;
+}
+
+/**
+ * @brief 判断规则是否均可流式执行
+ *
+ * @param rules 已收集替换值的规则
+ * @return 均为 env / template 模式返回 true
+ */
+function isStreamableReplace(rules: ResolvedReplaceRule[]): boolean {
+	return rules.every(({ rule }) => STREAMABLE_REPLACE_MODES.includes(rule.mode));
+}
+
+/**
+ * @brief 判断是否以流式执行替换
+ *
+ * 仅当文件大小超过阈值且所有规则均为 env / template 模式时启用，
+ * 较小的文件仍整体替换，以便计算 ETag 与支持范围请求。
+ *
+ * @param length 文件大小，上游未返回 Content-Length 时为已读取的字节数
+ * @param rules  已收集替换值的规则
+ * @param env    运行时环境变量
+ * @return 需要流式替换返回 true
+ */
+function shouldStreamReplace(length: number, rules: ResolvedReplaceRule[], env: GithubProxyEnv): boolean {
+	return length > resolveStreamThreshold(env) && isStreamableReplace(rules);
+}
+
+/**
+ * @brief 查找待处理文本中可安全切分的位置
+ *
+ * 切分点须位于占位符与模板块之外，且为行首，或前一字符不是 }、后一字符不是空白与 {，
+ * 保证独占一行的块标签在分段前后识别结果一致。
+ *
+ * @param text 待处理文本
+ * @return 切分位置(此前的内容可独立替换)，无可用位置返回 0
+ */
+function findStreamCut(text: string): number {
+	let cut = 0;
+	let depth = 0;
+	let tagStart = -1;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (tagStart >= 0) {
+			if (char === '}') {
+				/* 块标签前可能紧跟 $ 或 {(如 ${{#each}}、{{{#if}})，与 parseTemplateBlocks 一致按任意位置识别 */
+				const block = text.slice(tagStart, i).match(/\{\{\s*([#/])(?:if|each)\b/);
+				depth += block ? (block[1] === '#' ? 1 : -1) : 0;
+				tagStart = -1;
+			}
+			continue;
+		}
+
+		if (depth <= 0 && i > 0 && (text[i - 1] === '\n' || (!/[\s{$]/.test(char) && text[i - 1] !== '}'))) {
+			cut = i;
+		}
+
+		if ((char === '{' || char === '$') && text[i + 1] === '{') {
+			tagStart = i;
+			i++;
+		}
+	}
+
+	return tagStart < 0 && depth <= 0 && text.endsWith('\n') ? text.length : cut;
+}
+
+/**
+ * @brief 创建流式替换转换流
+ *
+ * 上游内容按可安全切分的位置分段替换，跨分块的占位符与模板块暂存至闭合；
+ * 暂存内容超过 REPLACE_STREAM_MAX_PENDING 时按原样分段处理，保证内存占用有上限。
+ *
+ * @param rules    已收集替换值的规则
+ * @param pathname 文件路径
+ * @return 文本转换流
+ */
+function createReplaceStream(rules: ResolvedReplaceRule[], pathname: string): TransformStream<string, string> {
+	let pending = '';
+
+	return new TransformStream<string, string>({
+		transform(chunk, controller) {
+			pending += chunk;
+			let cut = findStreamCut(pending);
+			if (!cut && pending.length > REPLACE_STREAM_MAX_PENDING) {
+				console.warn(`[Replace] 占位符或模板块超过 ${REPLACE_STREAM_MAX_PENDING} 字符仍未闭合，已强制分段`);
+				cut = pending.length;
+			}
+			if (cut) {
+				controller.enqueue(applyReplaceRules(pending.slice(0, cut), rules, pathname));
+				pending = pending.slice(cut);
+			}
+		},
+		flush(controller) {
+			if (pending) {
+				controller.enqueue(applyReplaceRules(pending, rules, pathname));
+			}
+		},
+	});
+}
+
+/* ************************************************************************** */
+/*                           条件请求相关函数                                   */
+/* ************************************************************************** */
+
+/* 需要透传至 GitHub 的条件请求与范围请求头 */
+const FORWARDED_REQUEST_HEADERS = ['If-None-Match', 'If-Modified-Since', 'Range', 'If-Range'];
+
+/**
+ * @brief 基于内容计算强 ETag
+ *
+ * @param content 响应内容
+ * @return 形如 "sha256-hex" 的 ETag
+ */
+async function computeEtag(content: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+	return `"${toHex(digest)}"`;
+}
+
+/**
+ * @brief 判断 If-None-Match 是否命中 ETag
+ *
+ * 采用弱比较，忽略 W/ 前缀；* 匹配任意 ETag。
+ *
+ * @param ifNoneMatch If-None-Match 请求头
+ * @param etag        响应 ETag
+ * @return 命中返回 true
+ */
+function matchesEtag(ifNoneMatch: string, etag: string): boolean {
+	const normalize = (tag: string) => tag.trim().replace(/^W\//, '');
+	const target = normalize(etag);
+	return ifNoneMatch.split(',').some((tag) => tag.trim() === '*' || normalize(tag) === target);
+}
+
+/**
+ * @brief 根据客户端条件请求头生成 304 响应
+ *
+ * If-None-Match 优先；仅当未携带 If-None-Match 时才比较 If-Modified-Since。
+ *
+ * @param request  原始请求
+ * @param response 完整响应
+ * @return 条件命中返回 304，否则返回原响应
+ */
+function applyConditionalRequest(request: Request, response: Response): Response {
+	if (response.status !== 200) {
+		return response;
+	}
+
+	const ifNoneMatch = request.headers.get('If-None-Match');
+	const etag = response.headers.get('ETag');
+	const ifModifiedSince = request.headers.get('If-Modified-Since');
+	const lastModified = response.headers.get('Last-Modified');
+
+	let notModified = false;
+	if (ifNoneMatch) {
+		notModified = !!etag && matchesEtag(ifNoneMatch, etag);
+	} else if (ifModifiedSince && lastModified) {
+		const since = Date.parse(ifModifiedSince);
+		const modified = Date.parse(lastModified);
+		notModified = !isNaN(since) && !isNaN(modified) && modified <= since;
+	}
+
+	if (!notModified) {
+		return response;
+	}
+
+	return buildNotModifiedResponse(response.headers);
+}
+
+/**
+ * @brief 构建 304 响应
+ *
+ * @param sourceHeaders 原响应头(保留 ETag、Cache-Control 等元信息)
+ * @return 304 响应
+ */
+function buildNotModifiedResponse(sourceHeaders: Headers): Response {
+	const headers = new Headers(sourceHeaders);
+	headers.delete('Content-Length');
+	return new Response(null, { status: 304, headers });
+}
+
+/* ************************************************************************** */
+/*                           范围请求相关函数                                   */
+/* ************************************************************************** */
+
+/**
+ * @brief 解析单段 Range 请求头
+ *
+ * 支持 bytes=start-end、bytes=start- 与 bytes=-suffix 三种形式；
+ * 多段范围不支持，按未携带 Range 处理。
+ *
+ * @param rangeHeader Range 请求头
+ * @param size        完整内容字节数
+ * @return 闭区间 [start, end]；无法处理返回 null；不可满足返回 'unsatisfiable'
+ */
+function parseRangeHeader(rangeHeader: string, size: number): { start: number; end: number } | 'unsatisfiable' | null {
+	const match = rangeHeader.trim().match(/^bytes=(\d*)-(\d*)$/i);
+	if (!match || (!match[1] && !match[2])) {
 		return null;
 	}
-	
-	// 检查缓存
-	const cacheKey = JSON.stringify(rule.api);
-	const cached = apiCache.get(cacheKey);
-	const now = Date.now();
-	
-	if (cached && cached.expires > now) {
-		return cached.data;
+
+	let start: number;
+	let end: number;
+
+	if (!match[1]) {
+		/* 后缀范围: 最后 N 个字节 */
+		const suffix = parseInt(match[2], 10);
+		if (suffix === 0) {
+			return 'unsatisfiable';
+		}
+		start = Math.max(size - suffix, 0);
+		end = size - 1;
+	} else {
+		start = parseInt(match[1], 10);
+		end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+		if (match[2] && parseInt(match[2], 10) < start) {
+			return null;
+		}
 	}
-	
+
+	if (start >= size || size === 0) {
+		return 'unsatisfiable';
+	}
+
+	return { start, end };
+}
+
+/**
+ * @brief 以流的方式截取响应体的字节区间
+ *
+ * @param body  完整响应体
+ * @param start 起始字节(含)
+ * @param end   结束字节(含)
+ * @return 仅包含区间内字节的流
+ */
+function sliceBodyStream(body: ReadableStream<Uint8Array>, start: number, end: number): ReadableStream<Uint8Array> {
+	let offset = 0;
+	return body.pipeThrough(
+		new TransformStream<Uint8Array, Uint8Array>({
+			transform(chunk, controller) {
+				const from = Math.max(start - offset, 0);
+				const to = Math.min(end + 1 - offset, chunk.length);
+				offset += chunk.length;
+				if (from < to) {
+					controller.enqueue(chunk.subarray(from, to));
+				}
+			},
+		})
+	);
+}
+
+/**
+ * @brief 根据客户端 Range 请求头截取完整响应
+ *
+ * 按 Content-Length 计算区间并以流的方式截取，不缓冲完整内容；
+ * 长度未知、或携带 If-Range 且与 ETag 不一致时返回完整内容。
+ *
+ * @param request  原始请求
+ * @param response 完整响应(200)
+ * @return 206 / 416 响应，或无需处理时返回原响应
+ */
+async function applyRangeRequest(request: Request, response: Response): Promise<Response> {
+	const rangeHeader = request.headers.get('Range');
+	/* 流式替换的响应(Accept-Ranges: none)无法按范围截取，返回完整内容 */
+	if (response.status !== 200 || !rangeHeader || request.method !== 'GET' || response.headers.get('Accept-Ranges') === 'none') {
+		return response;
+	}
+
+	const ifRange = request.headers.get('If-Range');
+	if (ifRange) {
+		const etag = response.headers.get('ETag');
+		const lastModified = response.headers.get('Last-Modified');
+		/* If-Range 要求强比较 */
+		if (ifRange !== etag && ifRange !== lastModified) {
+			return response;
+		}
+	}
+
+	const contentLength = response.headers.get('Content-Length');
+	const size = Number(contentLength);
+	if (contentLength === null || !Number.isSafeInteger(size) || size < 0) {
+		return response;
+	}
+
+	const range = parseRangeHeader(rangeHeader, size);
+	if (range === null) {
+		return response;
+	}
+
+	const headers = new Headers(response.headers);
+	headers.set('Accept-Ranges', 'bytes');
+
+	if (range === 'unsatisfiable') {
+		await response.body?.cancel();
+		headers.set('Content-Range', `bytes */${size}`);
+		headers.delete('Content-Length');
+		return new Response(null, { status: 416, headers });
+	}
+
+	headers.set('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+	headers.set('Content-Length', (range.end - range.start + 1).toString());
+	return new Response(response.body && sliceBodyStream(response.body, range.start, range.end), { status: 206, headers });
+}
+
+/**
+ * @brief 依次应用条件请求与范围请求
+ *
+ * @param request  原始请求
+ * @param response 完整响应
+ * @return 最终返回给客户端的响应
+ */
+async function finalizeResponse(request: Request, response: Response): Promise<Response> {
+	const conditional = applyConditionalRequest(request, response);
+	return conditional.status === 304 ? conditional : applyRangeRequest(request, conditional);
+}
+
+/* ************************************************************************** */
+/*                           边缘缓存相关函数                                   */
+/* ************************************************************************** */
+
+/**
+ * @brief 解析边缘缓存配置
+ *
+ * @param configStr CACHE_CONFIG 环境变量值
+ * @return 缓存规则数组，解析失败返回空数组
+ */
+function parseCacheConfig(configStr: string | undefined): CacheRule[] {
+	if (!configStr) {
+		return [];
+	}
+
 	try {
-		const response = await fetch(rule.api.url, {
-			method: rule.api.method || 'GET',
-			headers: rule.api.headers || {}
-		});
-		
-		if (!response.ok) {
-			console.error(`API 请求失败: ${response.status} ${response.statusText} (${rule.api.url})`);
-			return null;
+		const config = JSON.parse(configStr);
+		return Array.isArray(config) ? config.filter((rule: CacheRule) => rule && Array.isArray(rule.files)) : [];
+	} catch (e) {
+		console.error('解析 CACHE_CONFIG 失败:', e);
+		return [];
+	}
+}
+
+/**
+ * @brief 计算文件路径对应的缓存 TTL
+ *
+ * 按配置顺序取第一条匹配的规则。
+ *
+ * @param pathname 文件路径
+ * @param rules    缓存规则数组
+ * @return 缓存时间（秒），无匹配或不缓存返回 0
+ */
+function resolveCacheTtl(pathname: string, rules: CacheRule[]): number {
+	const rule = rules.find((item) => matchesFilePattern(pathname, item.files));
+	return rule && rule.ttl > 0 ? Math.floor(rule.ttl) : 0;
+}
+
+/**
+ * @brief 判断请求是否要求绕过缓存
+ *
+ * 仅在配置 CACHE_BYPASS_KEY 时生效，且请求头取值须与之相同，
+ * 避免任意客户端绕过缓存直接消耗上游配额。
+ *
+ * @param request 原始请求
+ * @param env     运行时环境变量
+ * @return 需要绕过返回 true
+ */
+function isCacheBypassed(request: Request, env: GithubProxyEnv): boolean {
+	const provided = request.headers.get(CACHE_BYPASS_HEADER);
+	if (!provided || !env.CACHE_BYPASS_KEY) {
+		return false;
+	}
+	return timingSafeEqualString(provided, env.CACHE_BYPASS_KEY);
+}
+
+/**
+ * @brief 构建缓存键
+ *
+ * 以解析后的 GitHub Raw URL 为基础(已包含 owner/repo/ref/path)，
+ * 不包含客户端查询参数，避免 secret 等敏感值进入缓存键。
+ * 替换规则按客户端路径匹配，指向同一仓库的不同路由前缀可能命中不同规则，
+ * 因此缓存键同时包含命中的路由前缀。
+ *
+ * @param rawUrl  完整 GitHub Raw URL
+ * @param prefix  命中的路由前缀，默认路由为空串
+ * @param variant 替换结果所依赖请求值的摘要，为空串时不区分
+ * @return 缓存键请求
+ */
+function buildCacheKey(rawUrl: string, prefix: string, variant: string): Request {
+	const key = new URL(`${CACHE_KEY_ORIGIN}${rawUrl.slice(GITHUB_RAW_ORIGIN.length)}`);
+	if (prefix) {
+		key.searchParams.set('route', prefix);
+	}
+	if (variant) {
+		key.searchParams.set('variant', variant);
+	}
+	return new Request(key.toString());
+}
+
+/**
+ * @brief 计算替换结果所依赖请求值的摘要
+ *
+ * 匹配规则读取的请求值(requestVars)不同时替换结果不同，需分别缓存；
+ * 以摘要代替原值写入缓存键，避免请求头等内容出现在缓存键中。
+ *
+ * @param requestPath 客户端请求路径
+ * @param request     客户端请求
+ * @param env         运行时环境变量
+ * @return 十六进制摘要，未读取任何请求值时返回空串
+ */
+async function buildReplaceVariant(requestPath: string, request: Request, env: GithubProxyEnv): Promise<string> {
+	const rules = findMatchingRules(requestPath, validateReplaceConfig((await loadReplaceConfig(env)).config).rules);
+	const values = rules.map((rule) => Object.entries(collectRequestValues(rule, request)));
+	if (!values.some((entries) => entries.length)) {
+		return '';
+	}
+	return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(values))));
+}
+
+/**
+ * @brief 写入边缘缓存
+ *
+ * 缓存副本以 Cache-Control: max-age 控制过期时间，
+ * 原始 Cache-Control 暂存于 X-Origin-Cache-Control，命中时还原。
+ *
+ * @param cacheKey 缓存键
+ * @param response 待缓存的响应(调用方需传入克隆)
+ * @param ttl      缓存时间（秒）
+ */
+async function writeCachedResponse(cacheKey: Request, response: Response, ttl: number): Promise<void> {
+	const headers = new Headers(response.headers);
+	const originCacheControl = headers.get('Cache-Control');
+	if (originCacheControl) {
+		headers.set('X-Origin-Cache-Control', originCacheControl);
+	}
+	headers.set('Cache-Control', `max-age=${ttl}`);
+	headers.delete(CACHE_STATUS_HEADER);
+	headers.delete(TOKEN_INDEX_HEADER);
+
+	try {
+		await caches.default.put(cacheKey, new Response(response.body, { status: response.status, headers }));
+	} catch (e) {
+		console.error('[Cache] 写入缓存失败:', e);
+	}
+}
+
+/**
+ * @brief 读取边缘缓存
+ *
+ * 客户端请求单段范围且未携带条件请求头时，将 Range 交由 Cache API 截取，
+ * 直接返回 206 / 416，无需读取完整缓存内容；其余情况返回完整内容。
+ *
+ * @param cacheKey 缓存键
+ * @param request  客户端请求
+ * @return 命中时返回还原后的响应，否则返回 null
+ */
+async function readCachedResponse(cacheKey: Request, request: Request): Promise<Response | null> {
+	const range = request.headers.get('Range');
+	const conditional = ['If-Range', 'If-None-Match', 'If-Modified-Since'].some((name) => request.headers.has(name));
+	const ranged = range && !conditional && request.method === 'GET' && /^bytes=(\d+-\d*|-\d+)$/i.test(range.trim());
+	const cached = await caches.default.match(ranged ? new Request(cacheKey, { headers: { Range: range } }) : cacheKey);
+	if (!cached) {
+		return null;
+	}
+
+	const headers = new Headers(cached.headers);
+	const originCacheControl = headers.get('X-Origin-Cache-Control');
+	headers.delete('X-Origin-Cache-Control');
+	if (originCacheControl) {
+		headers.set('Cache-Control', originCacheControl);
+	} else {
+		headers.delete('Cache-Control');
+	}
+
+	return new Response(cached.body, { status: cached.status, headers });
+}
+
+/**
+ * @brief 为响应附加缓存状态头
+ *
+ * @param response 原始响应
+ * @param status   缓存状态
+ * @return 附加状态头后的响应
+ */
+function withCacheStatus(response: Response, status: 'HIT' | 'MISS' | 'BYPASS'): Response {
+	const tagged = new Response(response.body, response);
+	tagged.headers.set(CACHE_STATUS_HEADER, status);
+	return tagged;
+}
+
+/* ************************************************************************** */
+/*                           响应头相关函数                                     */
+/* ************************************************************************** */
+
+/* 按扩展名修正的 Content-Type，GitHub 对这些文件统一返回 text/plain 或 octet-stream */
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+	html: 'text/html',
+	htm: 'text/html',
+	css: 'text/css',
+	js: 'text/javascript',
+	mjs: 'text/javascript',
+	json: 'application/json',
+	map: 'application/json',
+	webmanifest: 'application/manifest+json',
+	xml: 'application/xml',
+	svg: 'image/svg+xml',
+	wasm: 'application/wasm',
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	webp: 'image/webp',
+	avif: 'image/avif',
+	ico: 'image/x-icon',
+	woff: 'font/woff',
+	woff2: 'font/woff2',
+	pdf: 'application/pdf',
+};
+
+/* GitHub 对无法识别类型的文件使用的通用 Content-Type */
+const GENERIC_CONTENT_TYPES = ['', 'text/plain', 'application/octet-stream'];
+
+/**
+ * @brief 解析响应头规则配置
+ *
+ * @param configStr HEADER_CONFIG 环境变量值
+ * @return 响应头规则数组，解析失败返回空数组
+ */
+function parseHeaderConfig(configStr: string | undefined): HeaderRule[] {
+	if (!configStr) {
+		return [];
+	}
+
+	try {
+		const config = JSON.parse(configStr);
+		return Array.isArray(config)
+			? config.filter((rule: HeaderRule) => rule && Array.isArray(rule.files) && typeof rule.headers === 'object' && rule.headers !== null)
+			: [];
+	} catch (e) {
+		console.error('解析 HEADER_CONFIG 失败:', e);
+		return [];
+	}
+}
+
+/**
+ * @brief 按扩展名修正 Content-Type
+ *
+ * 仅修正 GitHub 返回的通用类型；文本类型保留原有的 charset 参数。
+ *
+ * @param pathname    文件路径
+ * @param contentType 原 Content-Type
+ * @return 修正后的 Content-Type，无需修正时原样返回
+ */
+function resolveContentType(pathname: string, contentType: string): string {
+	const extension = pathname.match(/\.([^./]+)$/)?.[1].toLowerCase();
+	const mapped = extension && EXTENSION_CONTENT_TYPES[extension];
+	if (!mapped || !GENERIC_CONTENT_TYPES.includes(contentType.split(';')[0].trim().toLowerCase())) {
+		return contentType;
+	}
+
+	const charset = contentType.match(/;\s*charset\s*=\s*[^;]+/i)?.[0];
+	const textual = mapped.startsWith('text/') || /[+/](json|xml)$/.test(mapped);
+	return textual && charset ? `${mapped}${charset}` : mapped;
+}
+
+/**
+ * @brief 为文件响应修正 Content-Type 并应用响应头规则
+ *
+ * 所有匹配的规则按配置顺序依次生效，后者覆盖前者的同名响应头；
+ * 错误响应不做处理，避免错误文案以 HTML 等类型返回。
+ *
+ * @param response 文件响应
+ * @param pathname 客户端请求路径
+ * @param env      运行时环境变量
+ * @return 应用响应头后的响应
+ */
+function applyResponseHeaders(response: Response, pathname: string, env: GithubProxyEnv): Response {
+	if (!response.ok && response.status !== 304) {
+		return response;
+	}
+
+	const result = new Response(response.body, response);
+	const contentType = result.headers.get('Content-Type');
+	if (contentType !== null) {
+		result.headers.set('Content-Type', resolveContentType(pathname, contentType));
+	}
+
+	for (const rule of parseHeaderConfig(env.HEADER_CONFIG)) {
+		if (!matchesFilePattern(pathname, rule.files)) {
+			continue;
 		}
-		
-		const data = await response.json();
-		
-		// 缓存数据
-		const cacheTTL = (rule.cache || 0) * 1000; // 转换为毫秒
-		if (cacheTTL > 0) {
-			apiCache.set(cacheKey, {
-				data,
-				expires: now + cacheTTL
-			});
+		for (const [name, value] of Object.entries(rule.headers)) {
+			if (value === null) {
+				result.headers.delete(name);
+			} else {
+				result.headers.set(name, String(value));
+			}
 		}
-		
-		return data;
-	} catch (error) {
-		console.error('获取 API 数据失败:', error);
+	}
+
+	return result;
+}
+
+/* ************************************************************************** */
+/*                             跨域相关函数                                     */
+/* ************************************************************************** */
+
+/* 跨域规则未配置 methods 时允许的方法 */
+const DEFAULT_CORS_METHODS = ['GET', 'HEAD'];
+
+/* 预检结果默认缓存时间(秒) */
+const DEFAULT_CORS_MAX_AGE = 600;
+
+/**
+ * @brief 解析跨域规则配置
+ *
+ * @param configStr CORS_CONFIG 环境变量值
+ * @return 跨域规则数组，解析失败返回空数组
+ */
+function parseCorsConfig(configStr: string | undefined): CorsRule[] {
+	if (!configStr) {
+		return [];
+	}
+
+	try {
+		const config = JSON.parse(configStr);
+		return Array.isArray(config) ? config.filter((rule: CorsRule) => rule && Array.isArray(rule.files) && Array.isArray(rule.origins)) : [];
+	} catch (e) {
+		console.error('解析 CORS_CONFIG 失败:', e);
+		return [];
+	}
+}
+
+/**
+ * @brief 查找路径匹配的跨域规则
+ *
+ * @param pathname 客户端请求路径
+ * @param env      运行时环境变量
+ * @return 按配置顺序第一条匹配的规则，未命中返回 undefined
+ */
+function findCorsRule(pathname: string, env: GithubProxyEnv): CorsRule | undefined {
+	return parseCorsConfig(env.CORS_CONFIG).find((item) => matchesFilePattern(pathname, item.files));
+}
+
+/**
+ * @brief 计算允许该来源时返回的 Access-Control-Allow-Origin
+ *
+ * 按配置顺序取第一条路径匹配的规则。明确列出(含 https://*.example.com 子域通配)的来源原样返回，
+ * 仅被 * 允许时返回 *，此时不允许携带凭据。
+ *
+ * @param pathname 客户端请求路径
+ * @param origin   请求的 Origin
+ * @param env      运行时环境变量
+ * @return 命中的规则与响应头取值，来源不被允许时返回 null
+ */
+function resolveCorsOrigin(pathname: string, origin: string, env: GithubProxyEnv): { rule: CorsRule; allowOrigin: string } | null {
+	const rule = findCorsRule(pathname, env);
+	if (!rule) {
 		return null;
 	}
+
+	const listed = rule.origins.some((pattern) => {
+		const [scheme, domain] = pattern.toLowerCase().split('://*.');
+		if (domain === undefined) {
+			return pattern !== '*' && pattern.toLowerCase() === origin.toLowerCase();
+		}
+		const host = origin.toLowerCase().slice(scheme.length + 3);
+		return origin.toLowerCase().startsWith(`${scheme}://`) && host.endsWith(`.${domain}`) && !host.includes('/');
+	});
+	if (listed) {
+		return { rule, allowOrigin: origin };
+	}
+
+	return rule.origins.includes('*') ? { rule, allowOrigin: '*' } : null;
+}
+
+/**
+ * @brief 判断受保护路径的跨域请求来源是否被允许
+ *
+ * 未配置 CORS_CONFIG 或请求不带 Origin(非浏览器跨域请求)时不做限制。
+ *
+ * @param pathname 客户端请求路径
+ * @param request  原始请求
+ * @param env      运行时环境变量
+ * @return 允许返回 true
+ */
+function isCorsOriginAllowed(pathname: string, request: Request, env: GithubProxyEnv): boolean {
+	const origin = request.headers.get('Origin');
+	if (!env.CORS_CONFIG || !origin) {
+		return true;
+	}
+	return resolveCorsOrigin(pathname, origin, env) !== null;
+}
+
+/**
+ * @brief 解析跨域规则匹配所用的客户端路径
+ *
+ * 与 AUTH_PATHS 一致，使用去除 @ref 段后的路径。
+ *
+ * @param url 请求 URL
+ * @param env 运行时环境变量
+ * @return 客户端路径
+ */
+function resolveCorsPath(url: URL, env: GithubProxyEnv): string {
+	return applyRefSelection(resolveRoute(url, env), url)?.requestPath ?? url.pathname;
+}
+
+/**
+ * @brief 处理 OPTIONS 请求
+ *
+ * 预检请求的来源、方法与请求头均被允许时返回 204 及 CORS 响应头，否则返回 403；
+ * 非预检的 OPTIONS 请求返回支持的方法。预检不携带凭据，因此不做鉴权。
+ *
+ * @param url     请求 URL
+ * @param request 原始请求
+ * @param env     运行时环境变量
+ * @return 响应
+ */
+function handlePreflightRequest(url: URL, request: Request, env: GithubProxyEnv): Response {
+	const origin = request.headers.get('Origin');
+	const requestMethod = request.headers.get('Access-Control-Request-Method');
+	if (!origin || !requestMethod) {
+		return new Response(null, { status: 204, headers: { Allow: 'GET, HEAD, OPTIONS' } });
+	}
+
+	const cors = resolveCorsOrigin(resolveCorsPath(url, env), origin, env);
+	const methods = cors?.rule.methods?.map((method) => method.toUpperCase()) ?? DEFAULT_CORS_METHODS;
+	const allowedHeaders = (cors?.rule.headers ?? []).map((name) => name.toLowerCase());
+	const requestHeaders = (request.headers.get('Access-Control-Request-Headers') ?? '')
+		.split(',')
+		.map((name) => name.trim().toLowerCase())
+		.filter(Boolean);
+
+	const headers = new Headers({ Vary: 'Origin, Access-Control-Request-Method, Access-Control-Request-Headers' });
+	if (!cors || !methods.includes(requestMethod.toUpperCase()) || !requestHeaders.every((name) => allowedHeaders.includes(name))) {
+		return new Response(null, { status: 403, headers });
+	}
+
+	headers.set('Access-Control-Allow-Origin', cors.allowOrigin);
+	headers.set('Access-Control-Allow-Methods', methods.join(', '));
+	if (cors.rule.headers?.length) {
+		headers.set('Access-Control-Allow-Headers', cors.rule.headers.join(', '));
+	}
+	if (cors.rule.credentials && cors.allowOrigin !== '*') {
+		headers.set('Access-Control-Allow-Credentials', 'true');
+	}
+	headers.set('Access-Control-Max-Age', String(cors.rule.maxAge ?? DEFAULT_CORS_MAX_AGE));
+	return new Response(null, { status: 204, headers });
+}
+
+/**
+ * @brief 为允许的跨域请求附加 CORS 响应头
+ *
+ * 在响应头规则之后应用，覆盖 HEADER_CONFIG 中的同名响应头；错误响应同样附加，便于前端读取状态码。
+ * 路径命中跨域规则时始终附加 Vary: Origin(含不带 Origin 的请求)，避免共享缓存将
+ * 某一来源(或无来源)的响应返回给其他来源。
+ *
+ * @param response 文件响应
+ * @param url      请求 URL
+ * @param request  原始请求
+ * @param env      运行时环境变量
+ * @return 附加 CORS 响应头后的响应，路径未命中跨域规则时原样返回
+ */
+function applyCorsHeaders(response: Response, url: URL, request: Request, env: GithubProxyEnv): Response {
+	const pathname = env.CORS_CONFIG ? resolveCorsPath(url, env) : '';
+	if (!pathname || !findCorsRule(pathname, env)) {
+		return response;
+	}
+
+	const result = new Response(response.body, response);
+	result.headers.append('Vary', 'Origin');
+
+	const origin = request.headers.get('Origin');
+	const cors = origin ? resolveCorsOrigin(pathname, origin, env) : null;
+	if (!cors) {
+		return result;
+	}
+
+	result.headers.set('Access-Control-Allow-Origin', cors.allowOrigin);
+	if (cors.rule.credentials && cors.allowOrigin !== '*') {
+		result.headers.set('Access-Control-Allow-Credentials', 'true');
+	}
+	if (cors.rule.exposeHeaders?.length) {
+		result.headers.set('Access-Control-Expose-Headers', cors.rule.exposeHeaders.join(', '));
+	}
+	return result;
 }
 
+/* ************************************************************************** */
+/*                           目录列表相关函数                                   */
+/* ************************************************************************** */
+
 /**
- * @brief 根据规则执行内容替换
+ * @brief 判断路径是否允许目录列表
  *
- * @param content 原始内容
- * @param rule 替换规则
- * @return 替换后的内容
+ * LIST_PATHS 以逗号/空白分隔，按路径段前缀匹配；配置 / 表示允许全部目录。
+ *
+ * @param requestPath 客户端请求路径(以 / 结尾)
+ * @param env         运行时环境变量
+ * @return 允许返回 true
  */
-async function applyReplaceRule(content: string, rule: ReplaceRule): Promise<string> {
-	// 构建替换值映射
-	const replacements: Record<string, string> = {};
-	
-	// 静态替换值优先
-	if (rule.static) {
-		Object.assign(replacements, rule.static);
-	}
-	
-	// API 数据替换
-	if (rule.api && rule.mappings) {
-		const apiData = await fetchReplacementData(rule);
-		if (apiData) {
-			for (const [placeholder, jsonPath] of Object.entries(rule.mappings)) {
-				const value = getValueByPath(apiData, jsonPath);
-				if (value !== undefined) {
-					replacements[placeholder] = String(value);
-				}
-			}
-		}
-	}
-	
-	// 执行替换
-	let result = content;
-	const errorStrategy = rule.onError || 'keep';
-	
-	switch (rule.mode) {
-		case 'env':
-			// 环境变量占位符模式: ${env:variable_name}
-			const envRegex = /\$\{env:([^}]+)\}/g;
-			result = content.replace(envRegex, (match, varName) => {
-				if (varName in replacements) {
-					return replacements[varName];
-				}
-				// 处理未找到替换值的情况
-				switch (errorStrategy) {
-					case 'remove': return '';
-					case 'error': throw new Error(`找不到替换值: ${varName}`);
-					default: return match; // keep
-				}
-			});
-			break;
-			
-		case 'template':
-			// 模板字符串模式: {{variable_name}}
-			result = content.replace(/\{\{([^}]+)\}\}/g, (match, varName) => {
-				varName = varName.trim();
-				if (varName in replacements) {
-					return replacements[varName];
-				}
-				switch (errorStrategy) {
-					case 'remove': return '';
-					case 'error': throw new Error(`找不到替换值: ${varName}`);
-					default: return match; // keep
-				}
-			});
-			break;
-			
-		case 'regex':
-			// 自定义正则表达式模式
-			if (rule.pattern) {
-				try {
-					const regex = new RegExp(rule.pattern, 'g');
-					result = content.replace(regex, (match, ...groups) => {
-						// 如果有捕获组，使用第一个捕获组作为变量名
-						const varName = groups[0] || match;
-						if (varName in replacements) {
-							return replacements[varName];
-						}
-						switch (errorStrategy) {
-							case 'remove': return '';
-							case 'error': throw new Error(`找不到替换值: ${varName}`);
-							default: return match; // keep
-						}
-					});
-				} catch (e) {
-					console.error('正则表达式解析失败:', e);
-				}
-			}
-			break;
+function isListingAllowed(requestPath: string, env: GithubProxyEnv): boolean {
+	if (!env.LIST_PATHS) {
+		return false;
 	}
-	
-	return result;
+
+	return env.LIST_PATHS.split(/[\s,]+/)
+		.filter(Boolean)
+		.some((entry) => {
+			const prefix = normalizeRoutePrefix(entry);
+			return requestPath.startsWith(prefix + '/');
+		});
 }
 
 /**
- * @brief 找到匹配的替换规则
+ * @brief 转义 HTML 特殊字符
  *
- * @param pathname 文件路径
- * @param rules 替换规则数组
- * @return 匹配的规则，无匹配返回 null
+ * @param text 原始文本
+ * @return 转义后的文本
  */
-function findMatchingRule(pathname: string, rules: ReplaceRule[]): ReplaceRule | null {
-	// 解码 URL 编码的路径
-	let decodedPath = pathname;
-	try {
-		decodedPath = decodeURIComponent(pathname);
-	} catch (e) {
-		// 如果解码失败，使用原始路径
+function escapeHtml(text: string): string {
+	return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * @brief 渲染简单 HTML 目录索引
+ *
+ * @param requestPath 客户端请求路径
+ * @param entries     目录条目
+ * @return HTML 文本
+ */
+function renderDirectoryHtml(requestPath: string, entries: DirectoryEntry[]): string {
+	const title = escapeHtml(`Index of ${requestPath}`);
+	const rows = entries.map((entry) => {
+		const href = encodeURIComponent(entry.name) + (entry.type === 'dir' ? '/' : '');
+		const label = escapeHtml(entry.name) + (entry.type === 'dir' ? '/' : '');
+		const size = entry.type === 'dir' ? '-' : String(entry.size);
+		return `<tr><td><a href="${href}">${label}</a></td><td>${size}</td><td>${entry.sha.slice(0, 7)}</td></tr>`;
+	});
+
+	return [
+		'<!DOCTYPE html>',
+		`<html><head><meta charset="utf-8"><title>${title}</title></head><body>`,
+		`<h1>${title}</h1>`,
+		'<table><thead><tr><th>Name</th><th>Size</th><th>SHA</th></tr></thead><tbody>',
+		requestPath !== '/' ? '<tr><td><a href="../">../</a></td><td>-</td><td></td></tr>' : '',
+		...rows,
+		'</tbody></table></body></html>',
+	].join('\n');
+}
+
+/**
+ * @brief 处理目录列表请求
+ *
+ * 调用 GitHub Contents API 获取目录内容，默认返回 JSON，
+ * 当 ?format=html 或 Accept 首选 text/html 时返回 HTML 索引。
+ *
+ * @param route   路由解析结果
+ * @param token   GitHub Token
+ * @param request 原始请求
+ * @param env     运行时环境变量
+ * @return 响应
+ */
+async function handleDirectoryRequest(
+	route: ResolvedRoute,
+	token: string,
+	request: Request,
+	env: GithubProxyEnv
+): Promise<Response> {
+	/* 未配置仓库或路径不在允许列表时，与普通不存在的文件一致返回 404 */
+	if (!route.owner || !route.repo || !isListingAllowed(route.requestPath, env)) {
+		return new Response(null, { status: 404 });
 	}
-	
-	const normalizedPath = decodedPath.startsWith('/') ? decodedPath : '/' + decodedPath;
-	
-	for (const rule of rules) {
-		const matches = rule.files.some(file => {
-			const normalizedFile = file.startsWith('/') ? file : '/' + file;
-			
-			// 支持通配符匹配
-			if (normalizedFile.includes('*') || normalizedFile.includes('?')) {
-				// 将通配符模式转换为正则表达式
-				// 先保存通配符的位置
-				let pattern = normalizedFile
-					.replace(/\*\*/g, '\x00DOUBLESTAR\x00')  // 临时替换 **
-					.replace(/\*/g, '\x00STAR\x00')          // 临时替换 *
-					.replace(/\?/g, '\x00QUESTION\x00');     // 临时替换 ?
-				
-				// 转义其他正则特殊字符
-				pattern = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
-				
-				// 将通配符转换为正则表达式
-				pattern = pattern
-					.replace(/\x00DOUBLESTAR\x00/g, '.*')      // ** 匹配任意字符
-					.replace(/\x00STAR\x00/g, '[^/]*')         // * 匹配非/字符
-					.replace(/\x00QUESTION\x00/g, '.');        // ? 匹配单个字符
-				
-				const regex = new RegExp(`^${pattern}$`);
-				return regex.test(normalizedPath);
-			}
-			
-			// 精确匹配
-			return normalizedPath === normalizedFile || normalizedPath.endsWith(normalizedFile);
-		});
-		
-		if (matches) {
-			return rule;
+
+	const dirPath = route.path.replace(/^\/+/, '').replace(/\/+$/, '');
+	const apiUrl = new URL(`${GITHUB_API_ORIGIN}/repos/${route.owner}/${route.repo}/contents/${dirPath}`);
+	if (route.branch) {
+		apiUrl.searchParams.set('ref', route.branch);
+	}
+
+	const apiHeaders = new Headers({
+		Accept: 'application/vnd.github+json',
+		'User-Agent': 'worker-githubraw',
+	});
+	const githubResp = await fetchFromGithub(apiUrl.toString(), apiHeaders, token, route, env);
+
+	if (!githubResp.ok) {
+		if (githubResp.status === 404) {
+			return new Response(null, { status: 404 });
 		}
+		const errMsg =
+			env.ERROR ?? '无法获取文件，请检查路径或 TOKEN 是否正确。';
+		return new Response(errMsg, { status: githubResp.status });
 	}
-	
-	return null;
+
+	const data = await githubResp.json();
+
+	/* 路径指向文件而非目录 */
+	if (!Array.isArray(data)) {
+		return new Response(null, { status: 404 });
+	}
+
+	const entries: DirectoryEntry[] = data.map((item: DirectoryEntry) => ({
+		name: item.name,
+		size: item.size,
+		sha: item.sha,
+		type: item.type,
+	}));
+
+	const url = new URL(request.url);
+	const wantsHtml =
+		url.searchParams.get('format') === 'html' ||
+		(url.searchParams.get('format') !== 'json' && (request.headers.get('Accept') ?? '').startsWith('text/html'));
+
+	if (wantsHtml) {
+		return new Response(renderDirectoryHtml(route.requestPath, entries), {
+			headers: { 'Content-Type': 'text/html; charset=utf-8' },
+		});
+	}
+
+	return new Response(JSON.stringify(entries), {
+		headers: { 'Content-Type': 'application/json; charset=utf-8' },
+	});
 }
 
 /* ************************************************************************** */
@@ -473,73 +3948,284 @@ async function handleRootRequest(
 	return new Response(null, { status: 404 });
 }
 
+/**
+ * @brief 校验管理接口访问令牌
+ *
+ * @param request 原始请求
+ * @param env     运行时环境变量
+ * @return 携带 Authorization: Bearer <ADMIN_TOKEN> 时返回 true
+ */
+function isAdminRequest(request: Request, env: GithubProxyEnv): boolean {
+	const authorization = request.headers.get('Authorization') ?? '';
+	return !!env.ADMIN_TOKEN && timingSafeEqualString(authorization, `Bearer ${env.ADMIN_TOKEN}`);
+}
+
+/**
+ * @brief 处理替换配置诊断与更新请求
+ *
+ * GET 返回当前生效配置的来源、解析后的规则、错误与警告；携带 ?path= 时
+ * 同时按执行顺序返回该路径命中的规则，ruleIndexes 为其在 rules (仅含有效规则) 中的序号。
+ * PUT 以请求体作为新配置，校验通过后写入 REPLACE_KV。
+ *
+ * @param url     请求 URL
+ * @param request 原始请求
+ * @param env     运行时环境变量
+ * @return JSON 诊断报告
+ */
+async function handleConfigRequest(url: URL, request: Request, env: GithubProxyEnv): Promise<Response> {
+	if (!isAdminRequest(request, env)) {
+		return new Response(null, { status: 404 });
+	}
+
+	if (request.method === 'PUT') {
+		return handleConfigUpdate(request, env);
+	}
+
+	const { source, config } = await loadReplaceConfig(env);
+	const report = validateReplaceConfig(config);
+	const path = url.searchParams.get('path');
+
+	let match: { path: string; ruleIndexes: number[]; rules: ReplaceRule[] } | undefined;
+	if (path) {
+		const rules = findMatchingRules(path, report.rules);
+		match = { path, ruleIndexes: rules.map((rule) => report.rules.indexOf(rule)), rules };
+	}
+
+	return Response.json(
+		{
+			valid: report.errors.length === 0,
+			strict: env.REPLACE_CONFIG_STRICT !== 'false',
+			source,
+			errors: report.errors,
+			warnings: report.warnings,
+			rules: report.rules,
+			match,
+		},
+		{ headers: { 'Cache-Control': 'no-store' } }
+	);
+}
+
+/**
+ * @brief 校验并写入新的替换配置
+ *
+ * 配置无效时返回 400 及校验结果且不写入；写入后立即刷新当前隔离的缓存，
+ * 其它隔离最迟在缓存过期(30 秒)后生效。
+ *
+ * @param request 携带新配置 JSON 的请求
+ * @param env     运行时环境变量
+ * @return JSON 校验结果
+ */
+async function handleConfigUpdate(request: Request, env: GithubProxyEnv): Promise<Response> {
+	if (!env.REPLACE_KV) {
+		return new Response('未绑定 REPLACE_KV，无法在线更新配置', { status: 501 });
+	}
+
+	const config = await request.text();
+	const report = validateReplaceConfig(config);
+	const valid = !!config && report.errors.length === 0;
+
+	if (valid) {
+		await env.REPLACE_KV.put(REPLACE_KV_KEY, config);
+		replaceKvCache = { config, expires: Date.now() + REPLACE_KV_CACHE_TTL };
+	}
+
+	return Response.json(
+		{ saved: valid, errors: config ? report.errors : ['配置不能为空'], warnings: report.warnings, rules: report.rules },
+		{ status: valid ? 200 : 400, headers: { 'Cache-Control': 'no-store' } }
+	);
+}
+
+/**
+ * @brief 处理签名 URL 生成请求
+ *
+ * 供后端服务签发链接，需携带 Authorization: Bearer <ADMIN_TOKEN>；
+ * 签名密钥本身不经网络传输，以免请求被记录时泄漏。
+ * 查询参数:
+ *  - path 需签名的文件路径(必填)
+ *  - ttl  有效期秒数(可选，默认 3600)
+ *  - ip   绑定的客户端 IP(可选)
+ *  - ref  读取的分支/标签/提交(可选，需命中路由 ref 白名单，默认为路由分支)
+ *
+ * @param url     请求 URL
+ * @param request 原始请求
+ * @param env     运行时环境变量
+ * @return 包含签名 URL 的 JSON 响应
+ */
+async function handleSignRequest(url: URL, request: Request, env: GithubProxyEnv): Promise<Response> {
+	/* 未启用签名、未配置管理令牌或凭据不匹配时返回 404，避免暴露接口 */
+	if (!env.URL_SIGNING_KEY || !isAdminRequest(request, env)) {
+		return new Response(null, { status: 404 });
+	}
+
+	const rawPath = url.searchParams.get('path');
+	if (!rawPath) {
+		return new Response('path 不能为空', { status: 400 });
+	}
+
+	const pathname = '/' + rawPath.replace(/^\/+/, '');
+	const ttl = parseInt(url.searchParams.get('ttl') ?? '', 10);
+	const expires = Math.floor(Date.now() / 1000) + (ttl > 0 ? ttl : DEFAULT_SIGN_TTL);
+	const ip = url.searchParams.get('ip') ?? '';
+	const ref = url.searchParams.get('ref');
+
+	const signedUrl = new URL(pathname, url.origin);
+	if (ref) {
+		signedUrl.searchParams.set('ref', ref);
+	}
+
+	/* 按访问时相同的规则解析 ref，签名绑定最终读取的 ref */
+	const route = applyRefSelection(resolveRoute(signedUrl, env), signedUrl);
+	if (!route || (ref && route.branch !== ref)) {
+		return new Response('ref 不在白名单内', { status: 400 });
+	}
+
+	signedUrl.searchParams.set('expires', String(expires));
+	if (ip) {
+		signedUrl.searchParams.set('ip', '1');
+	}
+	signedUrl.searchParams.set('sig', await signPath(route.requestPath, route.branch ?? '', expires, ip, env.URL_SIGNING_KEY));
+
+	return Response.json({ url: signedUrl.toString(), expires });
+}
+
 /**
  * @brief 处理 GitHub 文件直链请求
  *
- * @param urlPathname URL.pathname
+ * 鉴权通过后才会读取缓存；写入缓存的是替换后的最终内容。
+ * 启用缓存时条件请求与范围请求在本地处理，未启用时透传至 GitHub。
+ * Content-Type 修正与响应头规则在读取缓存后应用，修改 HEADER_CONFIG 后立即生效。
+ *
+ * @param url         请求 URL
  * @param request     原始请求
  * @param env         运行时环境变量
+ * @param ctx         执行上下文，用于异步写入缓存
  * @return 响应
  */
 async function handleGithubFileRequest(
-	urlPathname: string,
+	url: URL,
 	request: Request,
-	env: GithubProxyEnv
+	env: GithubProxyEnv,
+	ctx: ExecutionContext
 ): Promise<Response> {
-	if (!isAuthorized(urlPathname, request, env)) {
-		/* 鉴权失败时统一返回 404，避免暴露资源信息 */
+	const route = applyRefSelection(resolveRoute(url, env), url);
+
+	/* ref 非法或不在白名单内，同样返回 404 */
+	if (!route) {
 		return new Response(null, { status: 404 });
 	}
 
-	const rawUrl = buildGithubRawUrl(urlPathname, env);
-	const token = resolveToken(env);
+	if (!(await isAuthorized(route.requestPath, route.branch ?? '', request, env))) {
+		/* 鉴权失败时默认返回 404，避免暴露资源信息 */
+		return buildUnauthorizedResponse(env);
+	}
+
+	const rawUrl = buildGithubRawUrl(route);
+	const token = await resolveToken(route, env);
 
 	/* Token 为必须项，避免无鉴权下载超时限流 */
 	if (!token) {
 		return new Response('TOKEN 不能为空', { status: 400 });
 	}
 
-	const headers = new Headers({ Authorization: `token ${token}` });
+	/* 以 / 结尾的路径视为目录 */
+	if (route.path.endsWith('/')) {
+		return handleDirectoryRequest(route, token, request, env);
+	}
+
+	const cacheTtl = resolveCacheTtl(route.requestPath, parseCacheConfig(env.CACHE_CONFIG));
+	if (cacheTtl <= 0) {
+		const response = await finalizeResponse(request, await fetchGithubFile(rawUrl, token, route, env, ctx, request, true));
+		return applyResponseHeaders(response, route.requestPath, env);
+	}
+
+	if (isCacheBypassed(request, env)) {
+		const bypassed = await fetchGithubFile(rawUrl, token, route, env, ctx, request, true);
+		return applyResponseHeaders(withCacheStatus(await finalizeResponse(request, bypassed), 'BYPASS'), route.requestPath, env);
+	}
+
+	const cacheKey = buildCacheKey(rawUrl, route.prefix, await buildReplaceVariant(route.requestPath, request, env));
+	const cached = await readCachedResponse(cacheKey, request);
+	if (cached) {
+		return applyResponseHeaders(withCacheStatus(await finalizeResponse(request, cached), 'HIT'), route.requestPath, env);
+	}
+
+	/* 需完整内容写入缓存，因此不透传条件请求与范围请求头 */
+	const response = await fetchGithubFile(rawUrl, token, route, env, ctx, request, false);
+
+	/* 仅缓存成功响应，错误与 404 不缓存 */
+	if (response.status === 200) {
+		ctx.waitUntil(writeCachedResponse(cacheKey, response.clone(), cacheTtl));
+	}
+
+	return applyResponseHeaders(withCacheStatus(await finalizeResponse(request, response), 'MISS'), route.requestPath, env);
+}
+
+/**
+ * @brief 请求 GitHub 文件并按规则执行内容替换
+ *
+ * @param rawUrl      完整 GitHub Raw URL
+ * @param token       GitHub Token
+ * @param route       路由解析结果，requestPath 用于匹配替换规则
+ * @param env         运行时环境变量
+ * @param ctx         执行上下文
+ * @param request     客户端请求，提供替换规则所需的请求值
+ * @param conditional 是否透传客户端的条件/范围请求头
+ * @return 响应
+ */
+async function fetchGithubFile(
+	rawUrl: string,
+	token: string,
+	route: ResolvedRoute,
+	env: GithubProxyEnv,
+	ctx: ExecutionContext,
+	request: Request,
+	conditional: boolean
+): Promise<Response> {
+	const headers = new Headers();
+
+	// 检查是否需要进行内容替换
+	const replaceConfig = validateReplaceConfig((await loadReplaceConfig(env)).config);
+
+	/* 配置有误时默认拒绝服务，避免替换被静默关闭 */
+	if (replaceConfig.errors.length) {
+		console.error('解析 REPLACE_CONFIG 失败:', replaceConfig.errors);
+		if (env.REPLACE_CONFIG_STRICT !== 'false') {
+			return new Response(`REPLACE_CONFIG 配置无效，请通过 ${CONFIG_ROUTE} 查看详情`, { status: 500 });
+		}
+	}
+
+	const rules = findMatchingRules(route.requestPath, replaceConfig.rules);
+
+	/* 替换后的内容与 GitHub 原文不同，仅对透传文件转发条件/范围请求头 */
+	if (conditional && !rules.length) {
+		for (const name of FORWARDED_REQUEST_HEADERS) {
+			const value = request.headers.get(name);
+			if (value) {
+				headers.set(name, value);
+			}
+		}
+	}
+
+	const githubResp = await fetchFromGithub(rawUrl, headers, token, route, env);
 
-	const githubResp = await fetch(rawUrl, { headers });
+	/* GitHub 判定未修改，直接返回 304 */
+	if (githubResp.status === 304) {
+		return buildNotModifiedResponse(githubResp.headers);
+	}
+
+	/* 请求范围不可满足，透传 416 及 Content-Range */
+	if (githubResp.status === 416) {
+		return new Response(null, { status: 416, headers: githubResp.headers });
+	}
 
 	if (githubResp.ok) {
-		// 检查是否需要进行内容替换
-		const rules = parseReplaceConfig(env.REPLACE_CONFIG);
-		const rule = findMatchingRule(urlPathname, rules);
-		
-		if (rule) {
+		if (rules.length) {
 			try {
-				// 读取原始内容
-				const originalContent = await githubResp.text();
-				
-				// 执行内容替换
-				const replacedContent = await applyReplaceRule(originalContent, rule);
-				
-				// 构建新的响应
-				const responseHeaders = new Headers(githubResp.headers);
-				// 更新 Content-Length（如果存在）
-				responseHeaders.set('Content-Length', new TextEncoder().encode(replacedContent).length.toString());
-				
-				return new Response(replacedContent, {
-					status: githubResp.status,
-					headers: responseHeaders,
-				});
+				return await buildReplacedResponse(githubResp, rules, { pathname: route.requestPath, env, ctx, request });
 			} catch (error) {
+				/* 仅 onError 为 error 的规则会抛出至此，其余规则失败时已被跳过 */
 				console.error('[Replace] 内容替换失败:', error);
-				
-				// 根据错误处理策略决定响应
-				if (rule.onError === 'error') {
-					return new Response('文件内容处理失败', { status: 500 });
-				}
-				
-				// 否则返回原始内容
-				// 由于已经消费了 body，需要重新请求
-				const retryResp = await fetch(rawUrl, { headers });
-				return new Response(retryResp.body, {
-					status: retryResp.status,
-					headers: retryResp.headers,
-				});
+				return new Response('文件内容处理失败', { status: 500 });
 			}
 		}
 		
@@ -561,6 +4247,85 @@ async function handleGithubFileRequest(
 	return new Response(errMsg, { status: githubResp.status });
 }
 
+/**
+ * @brief 按规则替换 GitHub 响应内容
+ *
+ * 先按 types 与二进制嗅探筛选规则，再按识别出的字符集解码、替换并编码写回；
+ * 跳过替换时原样返回内容。X-Proxy-Replace 响应头标识替换状态。
+ *
+ * @param githubResp GitHub 成功响应
+ * @param rules      按路径匹配的规则
+ * @param context    执行上下文
+ * @return 响应，error 策略的规则失败时抛出错误
+ */
+async function buildReplacedResponse(githubResp: Response, rules: ReplaceRule[], context: ReplaceContext): Promise<Response> {
+	const responseHeaders = new Headers(githubResp.headers);
+	const contentType = responseHeaders.get('Content-Type') || '';
+	const { head, body } = await peekBody(githubResp.body || new Response('').body!, BINARY_SNIFF_LENGTH);
+
+	const applicable = rules.filter((rule) => isReplaceableType(rule, context.pathname, contentType));
+	const charset = detectCharset(head, contentType, applicable);
+	const skipReason = !applicable.length ? (BINARY_CONTENT_TYPE.test(contentType) ? 'binary' : 'type') : isBinaryContent(head, charset) ? 'binary' : null;
+	if (skipReason) {
+		responseHeaders.set(REPLACE_STATUS_HEADER, `skipped; reason=${skipReason}`);
+		return new Response(body, { status: githubResp.status, headers: responseHeaders });
+	}
+
+	// 收集各规则的替换值，API 数据在整个响应中只请求一次
+	const resolved = await resolveReplaceRules(applicable, context);
+	responseHeaders.set(REPLACE_STATUS_HEADER, `applied; rules=${resolved.length}`);
+
+	// 移除与原文件对应的 Last-Modified
+	responseHeaders.delete('Last-Modified');
+	// 内容随允许读取的请求头变化
+	const varyHeaders = applicable.flatMap((rule) =>
+		(rule.requestVars || []).filter((entry) => entry.startsWith('header.')).map((entry) => entry.slice('header.'.length))
+	);
+	if (varyHeaders.length) {
+		responseHeaders.append('Vary', [...new Set(varyHeaders)].join(', '));
+	}
+
+	// 无法按原编码写回时以 UTF-8 输出并更新 Content-Type
+	const encoding = resolveOutputEncoding(charset);
+	if (encoding !== charset.encoding) {
+		const mime = contentType.split(';')[0].trim() || 'text/plain';
+		responseHeaders.set('Content-Type', `${mime}; charset=utf-8`);
+	}
+
+	/* 长度未知(分块编码)时先读取至阈值: 阈值内读完按小文件整体替换，超过阈值才改为流式替换 */
+	let source = body;
+	let length = Number(githubResp.headers.get('Content-Length'));
+	if (!githubResp.headers.has('Content-Length') && isStreamableReplace(resolved)) {
+		const peeked = await peekBody(body, resolveStreamThreshold(context.env) + 1);
+		source = peeked.body;
+		length = peeked.head.length;
+	}
+
+	/* 大文件边读取边替换；长度与 ETag 无法预先得知，也不支持范围请求 */
+	if (shouldStreamReplace(length, resolved, context.env)) {
+		responseHeaders.delete('Content-Length');
+		responseHeaders.delete('ETag');
+		responseHeaders.set('Accept-Ranges', 'none');
+		const replaced = source
+			.pipeThrough(new TextDecoderStream(charset.encoding))
+			.pipeThrough(createReplaceStream(resolved, context.pathname))
+			.pipeThrough(createEncodeStream(encoding, charset.bom));
+		return new Response(replaced, { status: githubResp.status, headers: responseHeaders });
+	}
+
+	// 读取原始内容并依次执行所有匹配规则
+	const originalContent = new TextDecoder(charset.encoding).decode(await new Response(source).arrayBuffer());
+	const replacedContent = applyReplaceRules(originalContent, resolved, context.pathname);
+	const bytes = encodeText(replacedContent, encoding, charset.bom);
+
+	// 更新 Content-Length，并基于替换后的内容重新计算 ETag
+	responseHeaders.set('Content-Length', bytes.length.toString());
+	responseHeaders.set('ETag', await computeEtag(replacedContent));
+	responseHeaders.set('Accept-Ranges', 'bytes');
+
+	return new Response(bytes, { status: githubResp.status, headers: responseHeaders });
+}
+
 /* ************************************************************************** */
 /*                             Worker 入口                                    */
 /* ************************************************************************** */
@@ -570,18 +4335,36 @@ async function handleGithubFileRequest(
  *
  * @param request 客户端请求
  * @param env     运行时环境变量
+ * @param ctx     执行上下文
  * @return 响应
  */
 export default {
 	async fetch(
 		request: Request,
 		env: GithubProxyEnv,
-		_ctx: ExecutionContext
+		ctx: ExecutionContext
 	): Promise<Response> {
 		const url = new URL(request.url);
 
-		return url.pathname === '/'
-			? handleRootRequest(request, env)
-			: handleGithubFileRequest(url.pathname, request, env);
+		if (url.pathname === '/') {
+			return handleRootRequest(request, env);
+		}
+
+		/* 仅在配置管理令牌时接管诊断接口路径 */
+		if (url.pathname === CONFIG_ROUTE && env.ADMIN_TOKEN) {
+			return handleConfigRequest(url, request, env);
+		}
+
+		/* 仅在启用签名 URL 时接管签名接口路径，访问需管理令牌 */
+		if (url.pathname === SIGN_ROUTE && env.URL_SIGNING_KEY) {
+			return handleSignRequest(url, request, env);
+		}
+
+		/* 预检请求不回源 GitHub */
+		if (request.method === 'OPTIONS') {
+			return handlePreflightRequest(url, request, env);
+		}
+
+		return applyCorsHeaders(await handleGithubFileRequest(url, request, env, ctx), url, request, env);
 	},
 };
\ No newline at end of file
@@ -0,0 +1,122 @@
+/**
+ * @file api-cache.spec.ts
+ * @brief API 数据 stale-while-revalidate 缓存功能集成测试
+ */
+
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+// API 依次返回的结果，Error 表示请求失败
+let apiResponses: Array<string | Error> = [];
+
+function mockUpstream() {
+	mockFetch.mockImplementation((url: string) => {
+		if (String(url).startsWith('https://raw.githubusercontent.com')) {
+			return Promise.resolve(new Response('value: {{api.v}}'));
+		}
+		const next = apiResponses.shift() ?? new Error('no response');
+		return next instanceof Error ? Promise.resolve(new Response('down', { status: 503 })) : Promise.resolve(Response.json({ v: next }));
+	});
+}
+
+/**
+ * @brief 请求代理并等待后台任务完成
+ */
+async function request(source: Record<string, unknown>) {
+	const testEnv = {
+		...env,
+		GH_NAME: 'test-user',
+		GH_REPO: 'test-repo',
+		GH_BRANCH: 'main',
+		GH_TOKEN: 'test-token',
+		REPLACE_CONFIG: JSON.stringify([{ files: ['/app.conf'], mode: 'template', sources: [{ name: 'api', mappings: { v: 'v' }, ...source }] }]),
+	};
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(new Request('https://example.com/app.conf'), testEnv, ctx);
+	const content = await response.text();
+	await waitOnExecutionContext(ctx);
+	return content.replace('value: ', '').replace('{{api.v}}', 'unresolved');
+}
+
+function apiCallCount() {
+	return mockFetch.mock.calls.filter(([url]) => !String(url).startsWith('https://raw.githubusercontent.com')).length;
+}
+
+describe('API 数据缓存功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.useFakeTimers({ toFake: ['Date'] });
+		mockUpstream();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('过期后应返回旧值并在后台刷新', async () => {
+		const source = { url: 'https://api.example.com/swr', cache: 60, maxStale: 300 };
+		apiResponses = ['v1', 'v2'];
+
+		expect(await request(source)).toBe('v1');
+
+		vi.advanceTimersByTime(61 * 1000);
+		expect(await request(source)).toBe('v1');
+		expect(apiCallCount()).toBe(2);
+
+		// 后台刷新完成后返回新值且不再请求
+		expect(await request(source)).toBe('v2');
+		expect(apiCallCount()).toBe(2);
+	});
+
+	it('缓存应持久化至 Cache API', async () => {
+		apiResponses = ['persisted'];
+		await request({ url: 'https://api.example.com/persist', cache: 60 });
+
+		// 与 Worker 相同的缓存键: 数据源请求配置的 SHA-256
+		const key = JSON.stringify(['https://api.example.com/persist', null, null, null]);
+		const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+		const hex = [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+		const cached = await caches.default.match(`https://github-raw-proxy.cache/__api/${hex}`);
+
+		expect(cached).toBeDefined();
+		expect((await cached!.json<{ data: unknown }>()).data).toEqual({ v: 'persisted' });
+	});
+
+	it('刷新失败时应在最大陈旧时间内返回旧值并负缓存', async () => {
+		const source = { url: 'https://api.example.com/negative', cache: 60, maxStale: 300, negativeCache: 30 };
+		apiResponses = ['good', new Error(), new Error()];
+
+		expect(await request(source)).toBe('good');
+
+		vi.advanceTimersByTime(61 * 1000);
+		expect(await request(source)).toBe('good');
+		expect(apiCallCount()).toBe(2);
+
+		// 负缓存期内不再请求
+		vi.advanceTimersByTime(10 * 1000);
+		expect(await request(source)).toBe('good');
+		expect(apiCallCount()).toBe(2);
+
+		// 超过最大陈旧时间后不再返回旧值
+		vi.advanceTimersByTime(400 * 1000);
+		expect(await request(source)).toBe('unresolved');
+		expect(apiCallCount()).toBe(3);
+	});
+
+	it('无缓存数据时请求失败也应负缓存', async () => {
+		const source = { url: 'https://api.example.com/dead', cache: 60, negativeCache: 30 };
+		apiResponses = [new Error(), 'recovered'];
+
+		expect(await request(source)).toBe('unresolved');
+		expect(await request(source)).toBe('unresolved');
+		expect(apiCallCount()).toBe(1);
+
+		vi.advanceTimersByTime(31 * 1000);
+		expect(await request(source)).toBe('recovered');
+	});
+});
@@ -0,0 +1,131 @@
+/**
+ * @file api-sources.spec.ts
+ * @brief 多 API 数据源合并与故障转移功能集成测试
+ */
+
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+/**
+ * @brief 模拟上游：GitHub 返回模板，API 地址按 responder 返回
+ */
+function mockUpstream(template: string, responder: (url: string, init: RequestInit) => Promise<Response>) {
+	mockFetch.mockImplementation((url: string, init: RequestInit) =>
+		String(url).startsWith('https://raw.githubusercontent.com') ? Promise.resolve(new Response(template)) : responder(String(url), init)
+	);
+}
+
+async function request(path: string, rule: Record<string, unknown>) {
+	const testEnv = {
+		...env,
+		GH_NAME: 'test-user',
+		GH_REPO: 'test-repo',
+		GH_BRANCH: 'main',
+		GH_TOKEN: 'test-token',
+		REPLACE_CONFIG: JSON.stringify([{ files: [path], mode: 'template', ...rule }]),
+	};
+	const ctx = createExecutionContext();
+	return worker.fetch(new Request(`https://example.com${path}`), testEnv, ctx);
+}
+
+function apiCalls() {
+	return mockFetch.mock.calls.map(([url]) => String(url)).filter((url) => !url.startsWith('https://raw.githubusercontent.com'));
+}
+
+describe('多 API 数据源功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('应该并行获取命名数据源并按命名空间提供替换值', async () => {
+		mockUpstream('{{infra.api_host}} {{infra.regions.0}} {{db.host}} {{static_value}}', (url) =>
+			Promise.resolve(
+				url === 'https://infra.example.com/a'
+					? Response.json({ api_host: 'api.internal', regions: ['eu'] })
+					: Response.json({ primary: { host: 'db.internal' } })
+			)
+		);
+
+		const response = await request('/a.conf', {
+			static: { static_value: 'static' },
+			sources: [
+				{ name: 'infra', url: 'https://infra.example.com/a' },
+				{ name: 'db', url: 'https://db.example.com/a', mappings: { host: 'primary.host' } },
+			],
+		});
+
+		expect(await response.text()).toBe('api.internal eu db.internal static');
+		expect(apiCalls().sort()).toEqual(['https://db.example.com/a', 'https://infra.example.com/a']);
+	});
+
+	it('主地址失败时应按 retries 重试后切换到备用地址', async () => {
+		mockUpstream('{{infra.host}}', (url) =>
+			Promise.resolve(url.startsWith('https://primary') ? new Response('down', { status: 503 }) : Response.json({ host: 'secondary' }))
+		);
+
+		const response = await request('/b.conf', {
+			sources: [{ name: 'infra', url: 'https://primary.example.com/b', fallback: ['https://secondary.example.com/b'], retries: 1 }],
+		});
+
+		expect(await response.text()).toBe('secondary');
+		expect(apiCalls()).toEqual(['https://primary.example.com/b', 'https://primary.example.com/b', 'https://secondary.example.com/b']);
+	});
+
+	it('4xx 响应不应重试', async () => {
+		mockUpstream('{{infra.host}}', (url) =>
+			Promise.resolve(url.startsWith('https://primary') ? new Response('missing', { status: 404 }) : Response.json({ host: 'secondary' }))
+		);
+
+		await request('/c.conf', {
+			sources: [{ name: 'infra', url: 'https://primary.example.com/c', fallback: ['https://secondary.example.com/c'], retries: 3 }],
+		});
+
+		expect(apiCalls()).toEqual(['https://primary.example.com/c', 'https://secondary.example.com/c']);
+	});
+
+	it('请求超时后应切换到备用地址', async () => {
+		mockUpstream('{{infra.host}}', (url, init) =>
+			url.startsWith('https://slow')
+				? new Promise((_, reject) => init.signal!.addEventListener('abort', () => reject(init.signal!.reason)))
+				: Promise.resolve(Response.json({ host: 'fast' }))
+		);
+
+		const response = await request('/d.conf', {
+			sources: [{ name: 'infra', url: 'https://slow.example.com/d', fallback: ['https://fast.example.com/d'], timeout: 50 }],
+		});
+
+		expect(await response.text()).toBe('fast');
+	});
+
+	it('缓存应按数据源分别生效', async () => {
+		mockUpstream('{{cached.v}} {{fresh.v}}', () => Promise.resolve(Response.json({ v: 'x' })));
+		const rule = {
+			sources: [
+				{ name: 'cached', url: 'https://cached.example.com/e', cache: 60 },
+				{ name: 'fresh', url: 'https://fresh.example.com/e' },
+			],
+		};
+
+		await request('/e.conf', rule);
+		await request('/e.conf', rule);
+
+		expect(apiCalls().filter((url) => url.startsWith('https://cached'))).toHaveLength(1);
+		expect(apiCalls().filter((url) => url.startsWith('https://fresh'))).toHaveLength(2);
+	});
+
+	it('所有地址均失败时占位符按 onError 处理', async () => {
+		mockUpstream('value: {{infra.host}}', () => Promise.reject(new Error('network down')));
+
+		const response = await request('/f.conf', {
+			sources: [{ name: 'infra', url: 'https://primary.example.com/f', fallback: ['https://secondary.example.com/f'] }],
+			onError: 'remove',
+		});
+
+		expect(await response.text()).toBe('value: ');
+	});
+});
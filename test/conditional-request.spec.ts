@@ -0,0 +1,94 @@
+/**
+ * @file conditional-request.spec.ts
+ * @brief 条件请求 (ETag / 304) 功能集成测试
+ */
+
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const baseEnv = {
+	...env,
+	GH_NAME: 'test-user',
+	GH_REPO: 'test-repo',
+	GH_BRANCH: 'main',
+	GH_TOKEN: 'test-token',
+	REPLACE_CONFIG: JSON.stringify([{ files: ['/config/*'], mode: 'template', static: { host: 'db.example.com' } }]),
+};
+
+async function request(url: string, init?: RequestInit, testEnv: Record<string, unknown> = baseEnv) {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(new Request(url, init), testEnv as typeof baseEnv, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+describe('条件请求功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('透传文件应转发条件请求头并返回 GitHub 的 304', async () => {
+		mockFetch.mockImplementationOnce(() => Promise.resolve(new Response(null, { status: 304, headers: { ETag: '"abc"' } })));
+
+		const response = await request('https://example.com/src/app.js', {
+			headers: { 'If-None-Match': '"abc"', 'If-Modified-Since': 'Wed, 01 Jan 2025 00:00:00 GMT' },
+		});
+
+		const upstreamHeaders = new Headers(mockFetch.mock.calls[0][1]?.headers);
+		expect(upstreamHeaders.get('If-None-Match')).toBe('"abc"');
+		expect(upstreamHeaders.get('If-Modified-Since')).toBe('Wed, 01 Jan 2025 00:00:00 GMT');
+		expect(response.status).toBe(304);
+		expect(response.headers.get('ETag')).toBe('"abc"');
+	});
+
+	it('替换后的文件应基于转换后内容生成 ETag 并支持 304', async () => {
+		mockFetch.mockImplementation(() =>
+			Promise.resolve(new Response('host: {{host}}', { status: 200, headers: { ETag: '"upstream"' } }))
+		);
+
+		const first = await request('https://example.com/config/app.yml');
+		const etag = first.headers.get('ETag');
+		expect(await first.text()).toBe('host: db.example.com');
+		expect(etag).toMatch(/^"[0-9a-f]{64}"$/);
+		expect(etag).not.toBe('"upstream"');
+
+		const second = await request('https://example.com/config/app.yml', { headers: { 'If-None-Match': etag! } });
+		expect(second.status).toBe(304);
+		expect(await second.text()).toBe('');
+
+		// 替换文件不应向 GitHub 透传客户端的 ETag
+		const upstreamHeaders = new Headers(mockFetch.mock.calls[1][1]?.headers);
+		expect(upstreamHeaders.get('If-None-Match')).toBeNull();
+	});
+
+	it('替换值变化后旧 ETag 不应命中', async () => {
+		mockFetch.mockImplementation(() => Promise.resolve(new Response('host: {{host}}', { status: 200 })));
+
+		const first = await request('https://example.com/config/app.yml');
+		const changedEnv = {
+			...baseEnv,
+			REPLACE_CONFIG: JSON.stringify([{ files: ['/config/*'], mode: 'template', static: { host: 'db2.example.com' } }]),
+		};
+
+		const second = await request('https://example.com/config/app.yml', { headers: { 'If-None-Match': first.headers.get('ETag')! } }, changedEnv);
+		expect(second.status).toBe(200);
+		expect(await second.text()).toBe('host: db2.example.com');
+	});
+
+	it('命中边缘缓存时应在本地比较 ETag', async () => {
+		mockFetch.mockImplementation(() => Promise.resolve(new Response('cached', { status: 200, headers: { ETag: '"v1"' } })));
+		const testEnv = { ...baseEnv, CACHE_CONFIG: JSON.stringify([{ files: ['/**'], ttl: 60 }]) };
+
+		await request('https://example.com/assets/app.js', undefined, testEnv);
+		const response = await request('https://example.com/assets/app.js', { headers: { 'If-None-Match': 'W/"v1"' } }, testEnv);
+
+		expect(response.status).toBe(304);
+		expect(response.headers.get('X-Proxy-Cache')).toBe('HIT');
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+	});
+});
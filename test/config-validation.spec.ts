@@ -0,0 +1,131 @@
+/**
+ * @file config-validation.spec.ts
+ * @brief 替换配置校验与诊断接口集成测试
+ */
+
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const baseEnv = {
+	...env,
+	GH_NAME: 'test-user',
+	GH_REPO: 'test-repo',
+	GH_BRANCH: 'main',
+	GH_TOKEN: 'test-token',
+	ADMIN_TOKEN: 'admin-secret',
+};
+
+async function request(url: string, testEnv: Record<string, unknown>, headers: Record<string, string> = {}) {
+	const ctx = createExecutionContext();
+	return worker.fetch(new Request(url, { headers }), testEnv as typeof baseEnv, ctx);
+}
+
+async function diagnose(replaceConfig: unknown, query = '') {
+	const response = await request(
+		`https://example.com/__config${query}`,
+		{ ...baseEnv, REPLACE_CONFIG: typeof replaceConfig === 'string' ? replaceConfig : JSON.stringify(replaceConfig) },
+		{ Authorization: 'Bearer admin-secret' }
+	);
+	expect(response.status).toBe(200);
+	return response.json<{ valid: boolean; errors: string[]; warnings: string[]; rules: unknown[]; match?: any }>();
+}
+
+describe('替换配置校验功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockFetch.mockImplementation(() => Promise.resolve(new Response('value: {{v}}', { status: 200 })));
+	});
+
+	it('应该报告非法 JSON', async () => {
+		const report = await diagnose('[{"files": ');
+
+		expect(report.valid).toBe(false);
+		expect(report.errors[0]).toContain('不是合法的 JSON');
+	});
+
+	it('应该校验 mode、正则、映射与 files 类型', async () => {
+		const report = await diagnose([
+			{ files: ['/a'], mode: 'tempalte' },
+			{ files: ['/b'], mode: 'regex', pattern: '([' },
+			{ files: '/c', mode: 'env' },
+			{ files: ['/d'], mode: 'env', mappings: { host: { path: 'a.b' } }, api: { url: 'https://api.example.com' } },
+			{ files: ['/e'], mode: 'env', onError: 'ignore' },
+			{ files: ['/f.json'], mode: 'structured', format: 'toml' },
+			{ files: ['/g'], mode: 'env', envVars: ['*'] },
+			{ files: ['/h'], mode: 'env', sources: [{ name: 'a', url: 'https://a' }, { name: 'a', url: 'https://b', retries: -1 }] },
+		]);
+
+		expect(report.valid).toBe(false);
+		expect(report.rules).toHaveLength(0);
+		expect(report.errors).toEqual([
+			expect.stringContaining('规则 #0: mode'),
+			expect.stringContaining('规则 #1: pattern 不是合法的正则表达式'),
+			expect.stringContaining('规则 #2: files'),
+			expect.stringContaining('规则 #3: mappings'),
+			expect.stringContaining('规则 #4: onError'),
+			expect.stringContaining('规则 #5: structured 模式必须配置 keys'),
+			expect.stringContaining('规则 #5: format'),
+			expect.stringContaining('规则 #6: envVars'),
+			expect.stringContaining('规则 #7: sources[1].retries'),
+			expect.stringContaining('规则 #7: sources[1].name "a" 重复'),
+		]);
+	});
+
+	it('未知字段应给出警告但不影响规则生效', async () => {
+		const report = await diagnose([{ files: ['/a'], mode: 'template', stattic: { v: '1' } }]);
+
+		expect(report.valid).toBe(true);
+		expect(report.rules).toHaveLength(1);
+		expect(report.warnings).toEqual([expect.stringContaining('未知字段 "stattic"')]);
+	});
+
+	it('应该返回指定路径命中的规则', async () => {
+		const report = await diagnose(
+			[
+				{ files: ['/nginx.conf'], mode: 'template', static: { v: '1' } },
+				{ files: ['/config/*.yml'], mode: 'env', static: { v: '2' } },
+			],
+			'?path=/config/app.yml'
+		);
+
+		expect(report.match.ruleIndexes).toEqual([1]);
+		expect(report.match.rules[0].mode).toBe('env');
+	});
+
+	it('诊断接口需要管理令牌', async () => {
+		mockFetch.mockImplementation(() => Promise.resolve(new Response(null, { status: 404 })));
+		const response = await request('https://example.com/__config', baseEnv, { Authorization: 'Bearer wrong' });
+
+		expect(response.status).toBe(404);
+	});
+
+	it('配置无效时文件请求应返回 500', async () => {
+		const response = await request('https://example.com/config/app.yml', {
+			...baseEnv,
+			REPLACE_CONFIG: JSON.stringify([{ files: ['/config/*'], mode: 'tempalte', static: { v: '1' } }]),
+		});
+
+		expect(response.status).toBe(500);
+		expect(await response.text()).toContain('/__config');
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it('关闭严格模式后应忽略无效规则并继续服务', async () => {
+		const response = await request('https://example.com/config/app.yml', {
+			...baseEnv,
+			REPLACE_CONFIG_STRICT: 'false',
+			REPLACE_CONFIG: JSON.stringify([
+				{ files: ['/config/*'], mode: 'tempalte' },
+				{ files: ['/config/*'], mode: 'template', static: { v: 'ok' } },
+			]),
+		});
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe('value: ok');
+	});
+});
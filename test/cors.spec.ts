@@ -0,0 +1,135 @@
+/**
+ * @file cors.spec.ts
+ * @brief 跨域访问与预检请求功能集成测试
+ */
+
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const baseEnv = {
+	...env,
+	GH_NAME: 'test-user',
+	GH_REPO: 'test-repo',
+	GH_BRANCH: 'main',
+	GH_TOKEN: 'test-token',
+	AUTH_PATHS: 'private:abc123',
+	AUTH_HEADER: 'X-Api-Key',
+	CORS_CONFIG: JSON.stringify([
+		{
+			files: ['/private/**'],
+			origins: ['https://admin.example.com'],
+			methods: ['GET'],
+			headers: ['X-Api-Key'],
+			credentials: true,
+			maxAge: 300,
+		},
+		{ files: ['/**'], origins: ['https://*.example.org', '*'], exposeHeaders: ['ETag', 'X-Proxy-Cache'], credentials: true },
+	]),
+};
+
+async function request(url: string, init?: RequestInit, testEnv: Record<string, unknown> = baseEnv) {
+	const ctx = createExecutionContext();
+	return worker.fetch(new Request(url, init), testEnv as typeof baseEnv, ctx);
+}
+
+function preflight(url: string, origin: string, method = 'GET', headers?: string) {
+	return request(url, {
+		method: 'OPTIONS',
+		headers: {
+			Origin: origin,
+			'Access-Control-Request-Method': method,
+			...(headers ? { 'Access-Control-Request-Headers': headers } : {}),
+		},
+	});
+}
+
+describe('跨域功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockFetch.mockImplementation(() => Promise.resolve(new Response('content', { status: 200 })));
+	});
+
+	it('预检请求应返回 CORS 响应头且不回源', async () => {
+		const response = await preflight('https://example.com/private/app.json', 'https://admin.example.com', 'GET', 'x-api-key');
+
+		expect(response.status).toBe(204);
+		expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://admin.example.com');
+		expect(response.headers.get('Access-Control-Allow-Methods')).toBe('GET');
+		expect(response.headers.get('Access-Control-Allow-Headers')).toBe('X-Api-Key');
+		expect(response.headers.get('Access-Control-Allow-Credentials')).toBe('true');
+		expect(response.headers.get('Access-Control-Max-Age')).toBe('300');
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it('来源、方法或请求头不被允许时预检应返回 403', async () => {
+		expect((await preflight('https://example.com/private/app.json', 'https://evil.example.net')).status).toBe(403);
+		expect((await preflight('https://example.com/private/app.json', 'https://admin.example.com', 'DELETE')).status).toBe(403);
+		expect((await preflight('https://example.com/private/app.json', 'https://admin.example.com', 'GET', 'X-Other')).status).toBe(403);
+	});
+
+	it('非预检的 OPTIONS 请求应返回支持的方法', async () => {
+		const response = await request('https://example.com/app.json', { method: 'OPTIONS' });
+
+		expect(response.status).toBe(204);
+		expect(response.headers.get('Allow')).toBe('GET, HEAD, OPTIONS');
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it('通配来源应返回 * 且不允许凭据，子域通配应返回原来源', async () => {
+		const any = await request('https://example.com/public/app.json', { headers: { Origin: 'https://app.other.com' } });
+		expect(any.headers.get('Access-Control-Allow-Origin')).toBe('*');
+		expect(any.headers.get('Access-Control-Allow-Credentials')).toBeNull();
+		expect(any.headers.get('Access-Control-Expose-Headers')).toBe('ETag, X-Proxy-Cache');
+
+		const subdomain = await request('https://example.com/public/app.json', { headers: { Origin: 'https://docs.example.org' } });
+		expect(subdomain.headers.get('Access-Control-Allow-Origin')).toBe('https://docs.example.org');
+		expect(subdomain.headers.get('Access-Control-Allow-Credentials')).toBe('true');
+		expect(subdomain.headers.get('Vary')).toContain('Origin');
+	});
+
+	it('受保护路径仅允许指定来源访问', async () => {
+		const allowed = await request('https://example.com/private/app.json', {
+			headers: { Origin: 'https://admin.example.com', 'X-Api-Key': 'abc123' },
+		});
+		expect(allowed.status).toBe(200);
+		expect(allowed.headers.get('Access-Control-Allow-Origin')).toBe('https://admin.example.com');
+
+		const denied = await request('https://example.com/private/app.json', {
+			headers: { Origin: 'https://evil.example.net', 'X-Api-Key': 'abc123' },
+		});
+		expect(denied.status).toBe(404);
+		expect(denied.headers.get('Access-Control-Allow-Origin')).toBeNull();
+
+		// 非浏览器请求不带 Origin，仍按密钥鉴权
+		const direct = await request('https://example.com/private/app.json', { headers: { 'X-Api-Key': 'abc123' } });
+		expect(direct.status).toBe(200);
+	});
+
+	it('命中跨域规则的路径应始终返回 Vary: Origin', async () => {
+		const direct = await request('https://example.com/public/app.json');
+		expect(direct.headers.get('Access-Control-Allow-Origin')).toBeNull();
+		expect(direct.headers.get('Vary')).toContain('Origin');
+
+		const any = await request('https://example.com/public/app.json', { headers: { Origin: 'https://app.other.com' } });
+		expect(any.headers.get('Access-Control-Allow-Origin')).toBe('*');
+		expect(any.headers.get('Vary')).toContain('Origin');
+
+		const denied = await request('https://example.com/private/app.json', {
+			headers: { Origin: 'https://evil.example.net', 'X-Api-Key': 'abc123' },
+		});
+		expect(denied.headers.get('Vary')).toContain('Origin');
+	});
+
+	it('未配置 CORS_CONFIG 时不附加跨域响应头', async () => {
+		const response = await request('https://example.com/app.json', { headers: { Origin: 'https://app.other.com' } }, { ...baseEnv, CORS_CONFIG: undefined });
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Access-Control-Allow-Origin')).toBeNull();
+		expect(response.headers.get('Vary')).toBeNull();
+	});
+});
@@ -0,0 +1,88 @@
+/**
+ * @file directory-listing.spec.ts
+ * @brief 目录列表功能集成测试
+ */
+
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const baseEnv = {
+	...env,
+	GH_NAME: 'test-user',
+	GH_REPO: 'test-repo',
+	GH_BRANCH: 'main',
+	GH_TOKEN: 'test-token',
+	LIST_PATHS: 'docs, config',
+	AUTH_PATHS: 'config:abc123',
+};
+
+const contents = [
+	{ name: 'guide', path: 'docs/guide', sha: 'aaaaaaaaaaaa', size: 0, type: 'dir', url: 'ignored' },
+	{ name: 'a<b>.md', path: 'docs/a<b>.md', sha: 'bbbbbbbbbbbb', size: 42, type: 'file', url: 'ignored' },
+];
+
+async function request(url: string, init?: RequestInit) {
+	const ctx = createExecutionContext();
+	return worker.fetch(new Request(url, init), baseEnv, ctx);
+}
+
+describe('目录列表功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockFetch.mockImplementation(() => Promise.resolve(Response.json(contents)));
+	});
+
+	it('应该通过 Contents API 返回 JSON 列表', async () => {
+		const response = await request('https://example.com/docs/');
+
+		const [apiUrl, init] = mockFetch.mock.calls[0];
+		expect(String(apiUrl)).toBe('https://api.github.com/repos/test-user/test-repo/contents/docs?ref=main');
+		expect(new Headers(init?.headers).get('Authorization')).toBe('token test-token');
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Content-Type')).toContain('application/json');
+		expect(await response.json()).toEqual([
+			{ name: 'guide', size: 0, sha: 'aaaaaaaaaaaa', type: 'dir' },
+			{ name: 'a<b>.md', size: 42, sha: 'bbbbbbbbbbbb', type: 'file' },
+		]);
+	});
+
+	it('应该支持 HTML 索引并转义文件名', async () => {
+		const response = await request('https://example.com/docs/?format=html');
+		const html = await response.text();
+
+		expect(response.headers.get('Content-Type')).toContain('text/html');
+		expect(html).toContain('<a href="guide/">guide/</a>');
+		expect(html).toContain('a&#60;b&#62;.md');
+		expect(html).not.toContain('a<b>.md');
+	});
+
+	it('未在 LIST_PATHS 中的目录应返回 404', async () => {
+		const response = await request('https://example.com/src/');
+
+		expect(response.status).toBe(404);
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it('受保护目录的列表同样需要鉴权', async () => {
+		const denied = await request('https://example.com/config/');
+		expect(denied.status).toBe(404);
+		expect(mockFetch).not.toHaveBeenCalled();
+
+		const allowed = await request('https://example.com/config/?secret=abc123');
+		expect(allowed.status).toBe(200);
+	});
+
+	it('路径指向文件时应返回 404', async () => {
+		mockFetch.mockImplementation(() => Promise.resolve(Response.json({ name: 'docs', type: 'file' })));
+
+		const response = await request('https://example.com/docs/');
+
+		expect(response.status).toBe(404);
+	});
+});
@@ -0,0 +1,136 @@
+/**
+ * @file edge-cache.spec.ts
+ * @brief 边缘缓存功能集成测试
+ */
+
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const baseEnv = {
+	...env,
+	GH_NAME: 'test-user',
+	GH_REPO: 'test-repo',
+	GH_BRANCH: 'main',
+	GH_TOKEN: 'test-token',
+	ALLOWED_REFS: '*',
+	AUTH_PATHS: 'private:abc123',
+	CACHE_CONFIG: JSON.stringify([
+		{ files: ['/nocache/**'], ttl: 0 },
+		{ files: ['/**'], ttl: 60 },
+	]),
+};
+
+async function request(url: string, init?: RequestInit, testEnv: Record<string, unknown> = baseEnv) {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(new Request(url, init), testEnv as typeof baseEnv, ctx);
+	const body = await response.text();
+	await waitOnExecutionContext(ctx);
+	return { response, body };
+}
+
+describe('边缘缓存功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockFetch.mockImplementation(() => Promise.resolve(new Response('upstream', { status: 200 })));
+	});
+
+	it('首次请求应回源，再次请求应命中缓存', async () => {
+		const first = await request('https://example.com/assets/app.js');
+		expect(first.response.headers.get('X-Proxy-Cache')).toBe('MISS');
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+
+		const second = await request('https://example.com/assets/app.js');
+		expect(second.response.headers.get('X-Proxy-Cache')).toBe('HIT');
+		expect(second.body).toBe('upstream');
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('缓存键应包含解析后的 ref', async () => {
+		await request('https://example.com/assets/lib.js');
+		await request('https://example.com/@v2/assets/lib.js');
+
+		expect(mockFetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('未配置 CACHE_BYPASS_KEY 时应忽略绕过请求头', async () => {
+		await request('https://example.com/assets/bypass.js');
+		const bypassed = await request('https://example.com/assets/bypass.js', { headers: { 'X-Proxy-Cache-Bypass': '1' } });
+
+		expect(bypassed.response.headers.get('X-Proxy-Cache')).toBe('HIT');
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('配置 CACHE_BYPASS_KEY 时需携带匹配的密钥', async () => {
+		const testEnv = { ...baseEnv, CACHE_BYPASS_KEY: 'debug-key' };
+		await request('https://example.com/assets/keyed.js', undefined, testEnv);
+
+		const wrongKey = await request('https://example.com/assets/keyed.js', { headers: { 'X-Proxy-Cache-Bypass': '1' } }, testEnv);
+		expect(wrongKey.response.headers.get('X-Proxy-Cache')).toBe('HIT');
+
+		const rightKey = await request('https://example.com/assets/keyed.js', { headers: { 'X-Proxy-Cache-Bypass': 'debug-key' } }, testEnv);
+		expect(rightKey.response.headers.get('X-Proxy-Cache')).toBe('BYPASS');
+	});
+
+	it('受保护文件命中缓存前仍需鉴权', async () => {
+		await request('https://example.com/private/app.yml?secret=abc123');
+		const denied = await request('https://example.com/private/app.yml');
+
+		expect(denied.response.status).toBe(404);
+		expect(denied.body).toBe('');
+	});
+
+	it('应缓存替换后的内容', async () => {
+		mockFetch.mockImplementation(() => Promise.resolve(new Response('host: {{host}}', { status: 200 })));
+		const testEnv = {
+			...baseEnv,
+			REPLACE_CONFIG: JSON.stringify([{ files: ['/config/app.yml'], mode: 'template', static: { host: 'db.example.com' } }]),
+		};
+
+		await request('https://example.com/config/app.yml', undefined, testEnv);
+		const cached = await request('https://example.com/config/app.yml', undefined, testEnv);
+
+		expect(cached.response.headers.get('X-Proxy-Cache')).toBe('HIT');
+		expect(cached.body).toBe('host: db.example.com');
+	});
+
+	it('指向同一仓库的不同路由前缀应分别缓存', async () => {
+		mockFetch.mockImplementation(() => Promise.resolve(new Response('host: {{host}}', { status: 200 })));
+		const testEnv = {
+			...baseEnv,
+			ROUTES: JSON.stringify([
+				{ prefix: '/prod', owner: 'team', repo: 'config' },
+				{ prefix: '/raw', owner: 'team', repo: 'config' },
+			]),
+			REPLACE_CONFIG: JSON.stringify([{ files: ['/prod/**'], mode: 'template', static: { host: 'db.example.com' } }]),
+		};
+
+		const replaced = await request('https://example.com/prod/shared.yml', undefined, testEnv);
+		expect(replaced.body).toBe('host: db.example.com');
+
+		const raw = await request('https://example.com/raw/shared.yml', undefined, testEnv);
+		expect(raw.response.headers.get('X-Proxy-Cache')).toBe('MISS');
+		expect(raw.body).toBe('host: {{host}}');
+		expect(mockFetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('TTL 为 0 或未匹配规则时不缓存', async () => {
+		const first = await request('https://example.com/nocache/data.json');
+		await request('https://example.com/nocache/data.json');
+
+		expect(first.response.headers.get('X-Proxy-Cache')).toBeNull();
+		expect(mockFetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('上游错误响应不应被缓存', async () => {
+		mockFetch.mockImplementation(() => Promise.resolve(new Response('missing', { status: 404 })));
+		await request('https://example.com/assets/missing.js');
+		await request('https://example.com/assets/missing.js');
+
+		expect(mockFetch).toHaveBeenCalledTimes(2);
+	});
+});
@@ -0,0 +1,133 @@
+/**
+ * @file github-app.spec.ts
+ * @brief GitHub App Installation Token 鉴权功能集成测试
+ */
+
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+let keyPair: CryptoKeyPair;
+let pkcs8Pem: string;
+let pkcs1Pem: string;
+
+function toPem(label: string, der: Uint8Array): string {
+	const base64 = btoa(String.fromCharCode(...der));
+	return `-----BEGIN ${label}-----\n${base64.match(/.{1,64}/g)!.join('\n')}\n-----END ${label}-----`;
+}
+
+function base64UrlDecode(text: string): Uint8Array {
+	const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+	return Uint8Array.from(atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4)), (c) => c.charCodeAt(0));
+}
+
+/**
+ * @brief 模拟 GitHub：换取 Token 接口与 Raw 文件接口
+ */
+function mockGithub(tokens: string[], rawStatuses: number[] = []) {
+	mockFetch.mockImplementation((url: string) => {
+		if (String(url).includes('/access_tokens')) {
+			const token = tokens.shift() ?? 'exhausted';
+			return Promise.resolve(Response.json({ token, expires_at: new Date(Date.now() + 3600 * 1000).toISOString() }));
+		}
+		return Promise.resolve(new Response('content', { status: rawStatuses.shift() ?? 200 }));
+	});
+}
+
+function appEnv(installationId: string, privateKey = pkcs8Pem) {
+	return {
+		...env,
+		GH_NAME: 'org',
+		GH_REPO: 'repo',
+		GH_BRANCH: 'main',
+		GH_APP_ID: '12345',
+		GH_APP_PRIVATE_KEY: privateKey,
+		GH_APP_INSTALLATION_ID: installationId,
+	};
+}
+
+async function request(url: string, testEnv: ReturnType<typeof appEnv>) {
+	const ctx = createExecutionContext();
+	return worker.fetch(new Request(url), testEnv, ctx);
+}
+
+function rawCalls() {
+	return mockFetch.mock.calls.filter(([url]) => String(url).startsWith('https://raw.githubusercontent.com'));
+}
+
+describe('GitHub App 鉴权功能集成测试', () => {
+	beforeAll(async () => {
+		keyPair = (await crypto.subtle.generateKey(
+			{ name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+			true,
+			['sign', 'verify']
+		)) as CryptoKeyPair;
+		const pkcs8 = new Uint8Array((await crypto.subtle.exportKey('pkcs8', keyPair.privateKey)) as ArrayBuffer);
+		pkcs8Pem = toPem('PRIVATE KEY', pkcs8);
+		// 2048 位密钥的 PKCS#8 头部固定 26 字节，其后即为 PKCS#1 结构
+		pkcs1Pem = toPem('RSA PRIVATE KEY', pkcs8.slice(26));
+	});
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('应该以 App JWT 换取 Installation Token 并用于请求', async () => {
+		mockGithub(['inst-token-1']);
+
+		const response = await request('https://example.com/file.txt', appEnv('1001'));
+		expect(response.status).toBe(200);
+
+		const [tokenUrl, tokenInit] = mockFetch.mock.calls[0];
+		expect(String(tokenUrl)).toBe('https://api.github.com/app/installations/1001/access_tokens');
+		expect(tokenInit.method).toBe('POST');
+
+		const jwt = new Headers(tokenInit.headers).get('Authorization')!.replace('Bearer ', '');
+		const [header, payload, signature] = jwt.split('.');
+		const valid = await crypto.subtle.verify(
+			'RSASSA-PKCS1-v1_5',
+			keyPair.publicKey,
+			base64UrlDecode(signature),
+			new TextEncoder().encode(`${header}.${payload}`)
+		);
+		expect(valid).toBe(true);
+		expect(JSON.parse(new TextDecoder().decode(base64UrlDecode(payload))).iss).toBe('12345');
+
+		expect(new Headers(rawCalls()[0][1].headers).get('Authorization')).toBe('token inst-token-1');
+	});
+
+	it('应该支持 PKCS#1 格式私钥', async () => {
+		mockGithub(['inst-token-pkcs1']);
+
+		const response = await request('https://example.com/file.txt', appEnv('1002', pkcs1Pem.replace(/\n/g, '\\n')));
+
+		expect(response.status).toBe(200);
+		expect(new Headers(rawCalls()[0][1].headers).get('Authorization')).toBe('token inst-token-pkcs1');
+	});
+
+	it('Token 未过期时应复用缓存', async () => {
+		mockGithub(['inst-token-a', 'inst-token-b']);
+
+		await request('https://example.com/a.txt', appEnv('1003'));
+		await request('https://example.com/b.txt', appEnv('1003'));
+
+		const tokenCalls = mockFetch.mock.calls.filter(([url]) => String(url).includes('/access_tokens'));
+		expect(tokenCalls).toHaveLength(1);
+		expect(new Headers(rawCalls()[1][1].headers).get('Authorization')).toBe('token inst-token-a');
+	});
+
+	it('GitHub 返回 401 时应刷新 Token 并重试', async () => {
+		mockGithub(['revoked-token', 'fresh-token'], [401, 200]);
+
+		const response = await request('https://example.com/file.txt', appEnv('1004'));
+
+		expect(response.status).toBe(200);
+		const calls = rawCalls();
+		expect(calls).toHaveLength(2);
+		expect(new Headers(calls[1][1].headers).get('Authorization')).toBe('token fresh-token');
+	});
+});
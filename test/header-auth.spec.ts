@@ -0,0 +1,85 @@
+/**
+ * @file header-auth.spec.ts
+ * @brief 请求头鉴权功能集成测试
+ */
+
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const baseEnv = {
+	...env,
+	GH_NAME: 'test-user',
+	GH_REPO: 'test-repo',
+	GH_BRANCH: 'main',
+	GH_TOKEN: 'test-token',
+	AUTH_PATHS: 'config:abc123,config/prod:prod456',
+	AUTH_HEADER: 'X-Api-Key',
+};
+
+async function request(url: string, headers: Record<string, string> = {}, testEnv: Record<string, unknown> = baseEnv) {
+	const ctx = createExecutionContext();
+	return worker.fetch(new Request(url, { headers }), testEnv as typeof baseEnv, ctx);
+}
+
+describe('请求头鉴权功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockFetch.mockImplementation(() => Promise.resolve(new Response('content', { status: 200 })));
+	});
+
+	it('应该支持 Bearer Token', async () => {
+		const response = await request('https://example.com/config/app.yml', { Authorization: 'Bearer abc123' });
+		expect(response.status).toBe(200);
+	});
+
+	it('应该支持 HTTP Basic（取密码，密码为空时取用户名）', async () => {
+		const withPassword = await request('https://example.com/config/app.yml', { Authorization: `Basic ${btoa('ci:abc123')}` });
+		expect(withPassword.status).toBe(200);
+
+		const usernameOnly = await request('https://example.com/config/app.yml', { Authorization: `Basic ${btoa('abc123:')}` });
+		expect(usernameOnly.status).toBe(200);
+	});
+
+	it('应该支持自定义请求头', async () => {
+		const response = await request('https://example.com/config/app.yml', { 'X-Api-Key': 'abc123' });
+		expect(response.status).toBe(200);
+	});
+
+	it('错误的请求头密钥应被拒绝', async () => {
+		const response = await request('https://example.com/config/app.yml', { Authorization: 'Bearer wrong' });
+		expect(response.status).toBe(404);
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it('应该使用最具体的受保护目录', async () => {
+		const parentSecret = await request('https://example.com/config/prod/db.yml', { Authorization: 'Bearer abc123' });
+		expect(parentSecret.status).toBe(404);
+
+		const ownSecret = await request('https://example.com/config/prod/db.yml', { Authorization: 'Bearer prod456' });
+		expect(ownSecret.status).toBe(200);
+	});
+
+	it('受保护目录应按路径段匹配', async () => {
+		const response = await request('https://example.com/config2/app.yml');
+		expect(response.status).toBe(200);
+	});
+
+	it('配置 AUTH_CHALLENGE 时应返回 401 与 WWW-Authenticate', async () => {
+		const response = await request('https://example.com/config/app.yml', {}, { ...baseEnv, AUTH_CHALLENGE: 'basic' });
+
+		expect(response.status).toBe(401);
+		expect(response.headers.get('WWW-Authenticate')).toBe('Basic realm="github-raw-proxy"');
+	});
+
+	it('客户端凭据不应转发至 GitHub', async () => {
+		await request('https://example.com/config/app.yml', { Authorization: 'Bearer abc123' });
+
+		const upstreamHeaders = new Headers(mockFetch.mock.calls[0][1]?.headers);
+		expect(upstreamHeaders.get('Authorization')).toBe('token test-token');
+	});
+});
@@ -0,0 +1,106 @@
+/**
+ * @file json-path.spec.ts
+ * @brief 映射 JSON 路径语法集成测试
+ */
+
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const apiData = {
+	results: [
+		{ name: 'a', status: 'inactive', address: { host: '10.0.0.1' }, weight: 1 },
+		{ name: 'b', status: 'active', address: { host: '10.0.0.2' }, weight: 5 },
+		{ name: 'c', status: 'active', address: { host: '10.0.0.3' }, weight: 10 },
+	],
+	'app.version': '2.1.0',
+	labels: { "team's": 'infra', region: 'eu' },
+};
+
+function replaceEnv(mappings: Record<string, string>) {
+	return {
+		...env,
+		GH_NAME: 'test-user',
+		GH_REPO: 'test-repo',
+		GH_BRANCH: 'main',
+		GH_TOKEN: 'test-token',
+		ADMIN_TOKEN: 'admin-secret',
+		REPLACE_CONFIG: JSON.stringify([
+			{ files: ['/paths.conf'], mode: 'template', api: { url: 'https://api.example.com/paths' }, mappings },
+		]),
+	};
+}
+
+/**
+ * @brief 以给定映射渲染模板
+ */
+async function render(template: string, mappings: Record<string, string>) {
+	mockFetch.mockImplementation((url: string) =>
+		Promise.resolve(String(url).startsWith('https://api.example.com') ? Response.json(apiData) : new Response(template))
+	);
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(new Request('https://example.com/paths.conf'), replaceEnv(mappings), ctx);
+	return response.text();
+}
+
+describe('JSON 路径语法集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('应该兼容点号路径与数字下标', async () => {
+		expect(await render('{{host}}', { host: 'results.0.address.host' })).toBe('10.0.0.1');
+	});
+
+	it('应该支持方括号、引号键与负数下标', async () => {
+		const content = await render('{{last}} {{version}} {{team}} {{root}}', {
+			last: 'results[-1].address["host"]',
+			version: '$["app.version"]',
+			team: "labels['team\\'s']",
+			root: '$.labels.region',
+		});
+
+		expect(content).toBe('10.0.0.3 2.1.0 infra eu');
+	});
+
+	it('应该支持过滤表达式与通配符', async () => {
+		const content = await render('{{first_active}} {{heavy}} {{#each names}}{{this}};{{/each}} {{labels}}', {
+			first_active: 'results[?(@.status == "active")][0].address.host',
+			heavy: 'results[?(@.weight >= 10)][0].name',
+			names: 'results[*].name',
+			labels: 'labels.*',
+		});
+
+		expect(content).toBe('10.0.0.2 c a;b;c; infra,eu');
+	});
+
+	it('无法解析的路径应记录失败位置', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+		const content = await render('{{missing}}', { missing: 'results[0].address.port.number' });
+
+		expect(content).toBe('{{missing}}');
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('在 ".port" 处无法解析'));
+		warn.mockRestore();
+	});
+
+	it('语法错误的路径应在配置校验时报告', async () => {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new Request('https://example.com/__config', { headers: { Authorization: 'Bearer admin-secret' } }),
+			replaceEnv({ bad_bracket: 'results[0', bad_filter: 'results[?(@.status ~ "x")]' }),
+			ctx
+		);
+		const report = await response.json<{ valid: boolean; errors: string[] }>();
+
+		expect(report.valid).toBe(false);
+		expect(report.errors).toEqual([
+			expect.stringContaining('mappings.bad_bracket: JSON 路径 "results[0" 无效'),
+			expect.stringContaining('mappings.bad_filter: JSON 路径'),
+		]);
+	});
+});
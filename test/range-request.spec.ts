@@ -0,0 +1,132 @@
+/**
+ * @file range-request.spec.ts
+ * @brief 范围请求 (Range / 206) 功能集成测试
+ */
+
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const baseEnv = {
+	...env,
+	GH_NAME: 'test-user',
+	GH_REPO: 'test-repo',
+	GH_BRANCH: 'main',
+	GH_TOKEN: 'test-token',
+	REPLACE_CONFIG: JSON.stringify([{ files: ['/config/*'], mode: 'template', static: { name: 'world' } }]),
+};
+
+async function request(url: string, init?: RequestInit, testEnv: Record<string, unknown> = baseEnv) {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(new Request(url, init), testEnv as typeof baseEnv, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+describe('范围请求功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('透传文件应转发 Range 请求头并返回 GitHub 的 206', async () => {
+		mockFetch.mockImplementationOnce(() =>
+			Promise.resolve(new Response('0123', { status: 206, headers: { 'Content-Range': 'bytes 0-3/10' } }))
+		);
+
+		const response = await request('https://example.com/dist/big.bin', { headers: { Range: 'bytes=0-3' } });
+
+		expect(new Headers(mockFetch.mock.calls[0][1]?.headers).get('Range')).toBe('bytes=0-3');
+		expect(response.status).toBe(206);
+		expect(response.headers.get('Content-Range')).toBe('bytes 0-3/10');
+		expect(await response.text()).toBe('0123');
+	});
+
+	it('替换后的文件应基于转换后内容截取范围', async () => {
+		mockFetch.mockImplementation(() => Promise.resolve(new Response('hello {{name}}!', { status: 200 })));
+
+		const response = await request('https://example.com/config/greeting.txt', { headers: { Range: 'bytes=6-10' } });
+
+		expect(new Headers(mockFetch.mock.calls[0][1]?.headers).get('Range')).toBeNull();
+		expect(response.status).toBe(206);
+		expect(response.headers.get('Content-Range')).toBe('bytes 6-10/12');
+		expect(response.headers.get('Content-Length')).toBe('5');
+		expect(await response.text()).toBe('world');
+	});
+
+	it('应该支持后缀范围与开放范围', async () => {
+		mockFetch.mockImplementation(() => Promise.resolve(new Response('hello {{name}}!', { status: 200 })));
+
+		const suffix = await request('https://example.com/config/greeting.txt', { headers: { Range: 'bytes=-6' } });
+		expect(await suffix.text()).toBe('world!');
+
+		const open = await request('https://example.com/config/greeting.txt', { headers: { Range: 'bytes=6-' } });
+		expect(open.headers.get('Content-Range')).toBe('bytes 6-11/12');
+		expect(await open.text()).toBe('world!');
+	});
+
+	it('范围不可满足时应返回 416', async () => {
+		mockFetch.mockImplementation(() => Promise.resolve(new Response('hello {{name}}!', { status: 200 })));
+
+		const response = await request('https://example.com/config/greeting.txt', { headers: { Range: 'bytes=100-' } });
+
+		expect(response.status).toBe(416);
+		expect(response.headers.get('Content-Range')).toBe('bytes */12');
+	});
+
+	it('If-Range 与 ETag 不一致时应返回完整内容', async () => {
+		mockFetch.mockImplementation(() => Promise.resolve(new Response('hello {{name}}!', { status: 200 })));
+
+		const response = await request('https://example.com/config/greeting.txt', {
+			headers: { Range: 'bytes=0-4', 'If-Range': '"stale"' },
+		});
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe('hello world!');
+	});
+
+	it('启用边缘缓存时应在本地截取范围', async () => {
+		mockFetch.mockImplementation(() =>
+			Promise.resolve(new Response('0123456789', { status: 200, headers: { 'Content-Length': '10', ETag: '"big"' } }))
+		);
+		const testEnv = { ...baseEnv, CACHE_CONFIG: JSON.stringify([{ files: ['/**'], ttl: 60 }]) };
+
+		const miss = await request('https://example.com/dist/big.bin', { headers: { Range: 'bytes=2-4' } }, testEnv);
+		expect(miss.status).toBe(206);
+		expect(miss.headers.get('Content-Range')).toBe('bytes 2-4/10');
+		expect(await miss.text()).toBe('234');
+
+		const hit = await request('https://example.com/dist/big.bin', { headers: { Range: 'bytes=5-' } }, testEnv);
+		expect(hit.headers.get('X-Proxy-Cache')).toBe('HIT');
+		expect(hit.status).toBe(206);
+		expect(hit.headers.get('Content-Range')).toBe('bytes 5-9/10');
+		expect(await hit.text()).toBe('56789');
+
+		const unsatisfiable = await request('https://example.com/dist/big.bin', { headers: { Range: 'bytes=20-' } }, testEnv);
+		expect(unsatisfiable.status).toBe(416);
+
+		const conditional = await request('https://example.com/dist/big.bin', { headers: { Range: 'bytes=0-1', 'If-Range': '"big"' } }, testEnv);
+		expect(conditional.status).toBe(206);
+		expect(await conditional.text()).toBe('01');
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('响应长度未知时应返回完整内容', async () => {
+		const body = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(new TextEncoder().encode('0123456789'));
+				controller.close();
+			},
+		});
+		mockFetch.mockImplementation(() => Promise.resolve(new Response(body, { status: 200 })));
+		const testEnv = { ...baseEnv, CACHE_CONFIG: JSON.stringify([{ files: ['/**'], ttl: 60 }]) };
+
+		const response = await request('https://example.com/dist/chunked.bin', { headers: { Range: 'bytes=2-4' } }, testEnv);
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe('0123456789');
+	});
+});
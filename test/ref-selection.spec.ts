@@ -0,0 +1,126 @@
+/**
+ * @file ref-selection.spec.ts
+ * @brief 按请求指定 ref 功能集成测试
+ */
+
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const baseEnv = {
+	...env,
+	GH_NAME: 'test-user',
+	GH_REPO: 'test-repo',
+	GH_BRANCH: 'main',
+	GH_TOKEN: 'test-token',
+	ALLOWED_REFS: 'develop, /v\\d+\\.\\d+\\.\\d+/',
+	AUTH_PATHS: 'config:abc123',
+};
+
+async function request(url: string, testEnv: Record<string, unknown> = baseEnv) {
+	mockFetch.mockImplementationOnce(() => Promise.resolve(new Response('ok', { status: 200 })));
+
+	const ctx = createExecutionContext();
+	return worker.fetch(new Request(url), testEnv as typeof baseEnv, ctx);
+}
+
+describe('按请求指定 ref 功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('应该支持 /@ref/ 路径语法', async () => {
+		const response = await request('https://example.com/@v1.2.3/dist/app.js');
+
+		expect(response.status).toBe(200);
+		expect(String(mockFetch.mock.calls[0][0])).toBe('https://raw.githubusercontent.com/test-user/test-repo/v1.2.3/dist/app.js');
+	});
+
+	it('应该支持 ?ref= 查询参数', async () => {
+		const response = await request('https://example.com/dist/app.js?ref=develop');
+
+		expect(response.status).toBe(200);
+		expect(String(mockFetch.mock.calls[0][0])).toBe('https://raw.githubusercontent.com/test-user/test-repo/develop/dist/app.js');
+	});
+
+	it('不在白名单内的 ref 应返回 404 且不请求上游', async () => {
+		const response = await request('https://example.com/@0123456789abcdef/dist/app.js');
+
+		expect(response.status).toBe(404);
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it('未配置 ALLOWED_REFS 时不解析 ref，请求原样转发', async () => {
+		const testEnv = { ...baseEnv, ALLOWED_REFS: undefined };
+
+		const tracked = await request('https://example.com/README.md?ref=producthunt', testEnv);
+		expect(tracked.status).toBe(200);
+		expect(String(mockFetch.mock.calls[0][0])).toBe('https://raw.githubusercontent.com/test-user/test-repo/main/README.md');
+
+		const scoped = await request('https://example.com/@types/index.d.ts', testEnv);
+		expect(scoped.status).toBe(200);
+		expect(String(mockFetch.mock.calls[1][0])).toBe('https://raw.githubusercontent.com/test-user/test-repo/main/@types/index.d.ts');
+	});
+
+	it('指定 ref 时受保护目录仍需鉴权', async () => {
+		const denied = await request('https://example.com/@develop/config/app.yml');
+		expect(denied.status).toBe(404);
+		expect(mockFetch).not.toHaveBeenCalled();
+
+		const allowed = await request('https://example.com/@develop/config/app.yml?secret=abc123');
+		expect(allowed.status).toBe(200);
+		expect(String(mockFetch.mock.calls[0][0])).toBe('https://raw.githubusercontent.com/test-user/test-repo/develop/config/app.yml');
+	});
+
+	it('应该支持路由级 ref 白名单', async () => {
+		const testEnv = {
+			...baseEnv,
+			ROUTES: JSON.stringify([{ prefix: '/docs', owner: 'team', repo: 'docs', refs: ['*'] }]),
+		};
+
+		const response = await request('https://example.com/docs/@0123456789abcdef/guide.md', testEnv);
+
+		expect(response.status).toBe(200);
+		expect(String(mockFetch.mock.calls[0][0])).toBe('https://raw.githubusercontent.com/team/docs/0123456789abcdef/guide.md');
+	});
+
+	it('配置白名单后应拒绝透传完整 Raw 地址', async () => {
+		const passthrough = 'https://example.com/https://raw.githubusercontent.com/other/private/deadbeef/secret.txt';
+
+		expect((await request(passthrough)).status).toBe(404);
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it('是否限制 ref 按路由各自的白名单决定', async () => {
+		const testEnv = {
+			...baseEnv,
+			ALLOWED_REFS: undefined,
+			ROUTES: JSON.stringify([{ prefix: '/docs', owner: 'team', repo: 'docs', refs: ['main'] }]),
+		};
+
+		// 默认路由未配置白名单，配置 ROUTES 不影响其透传
+		const passthrough = await request('https://example.com/https://raw.githubusercontent.com/test-user/test-repo/main/a.txt', testEnv);
+		expect(passthrough.status).toBe(200);
+		expect(String(mockFetch.mock.calls[0][0])).toBe('https://raw.githubusercontent.com/test-user/test-repo/main/a.txt');
+
+		const denied = await request('https://example.com/docs/@develop/guide.md', testEnv);
+		expect(denied.status).toBe(404);
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('未固定分支时首个路径段应按 ref 白名单校验', async () => {
+		const testEnv = { ...baseEnv, GH_BRANCH: undefined };
+
+		const denied = await request('https://example.com/deadbeef/secret.txt', testEnv);
+		expect(denied.status).toBe(404);
+		expect(mockFetch).not.toHaveBeenCalled();
+
+		const allowed = await request('https://example.com/develop/dist/app.js', testEnv);
+		expect(allowed.status).toBe(200);
+		expect(String(mockFetch.mock.calls[0][0])).toBe('https://raw.githubusercontent.com/test-user/test-repo/develop/dist/app.js');
+	});
+});
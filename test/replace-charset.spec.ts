@@ -0,0 +1,130 @@
+/**
+ * @file replace-charset.spec.ts
+ * @brief 内容替换的二进制识别与字符集处理集成测试
+ */
+
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+function replaceEnv(rules: unknown[]) {
+	return {
+		...env,
+		GH_NAME: 'test-user',
+		GH_REPO: 'test-repo',
+		GH_BRANCH: 'main',
+		GH_TOKEN: 'test-token',
+		ADMIN_TOKEN: 'admin-secret',
+		REPLACE_CONFIG: JSON.stringify(rules),
+	};
+}
+
+const configRule = { files: ['/config/**'], mode: 'template', static: { name: '服务' } };
+
+/**
+ * @brief 以指定字节与 Content-Type 模拟上游并请求代理
+ */
+async function request(path: string, body: Uint8Array, contentType: string, rules: unknown[] = [configRule]) {
+	mockFetch.mockResolvedValue(new Response(body, { headers: { 'Content-Type': contentType } }));
+	const ctx = createExecutionContext();
+	return worker.fetch(new Request(`https://example.com${path}`), replaceEnv(rules), ctx);
+}
+
+/**
+ * @brief 以 UTF-16 编码文本
+ */
+function utf16(text: string, littleEndian: boolean): Uint8Array {
+	const bytes = new Uint8Array(text.length * 2);
+	const view = new DataView(bytes.buffer);
+	for (let i = 0; i < text.length; i++) {
+		view.setUint16(i * 2, text.charCodeAt(i), littleEndian);
+	}
+	return bytes;
+}
+
+describe('内容替换字符集功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('含 NUL 字节的二进制内容应原样返回', async () => {
+		const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x7b, 0x7b, 0x6e, 0x7d, 0x7d, 0xff]);
+
+		const response = await request('/config/logo.png', png, 'application/octet-stream');
+
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(png);
+		expect(response.headers.get('X-Proxy-Replace')).toBe('skipped; reason=binary');
+	});
+
+	it('二进制 MIME 类型应跳过，types 可显式允许', async () => {
+		const svg = new TextEncoder().encode('<svg>{{name}}</svg>');
+
+		const skipped = await request('/config/icon.webp', new TextEncoder().encode('{{name}}'), 'image/webp');
+		expect(await skipped.text()).toBe('{{name}}');
+		expect(skipped.headers.get('X-Proxy-Replace')).toBe('skipped; reason=binary');
+
+		const applied = await request('/config/icon.svg', svg, 'image/svg+xml');
+		expect(await applied.text()).toBe('<svg>服务</svg>');
+		expect(applied.headers.get('X-Proxy-Replace')).toBe('applied; rules=1');
+	});
+
+	it('types 应按扩展名与 MIME 类型筛选规则', async () => {
+		const rules = [
+			{ ...configRule, types: ['.yml'] },
+			{ files: ['/config/**'], mode: 'env', types: ['text/*'], static: { port: '80' } },
+		];
+		const content = new TextEncoder().encode('{{name}} ${env:port}');
+
+		const yml = await request('/config/app.yml', content, 'text/plain; charset=utf-8', rules);
+		expect(await yml.text()).toBe('服务 80');
+		expect(yml.headers.get('X-Proxy-Replace')).toBe('applied; rules=2');
+
+		const json = await request('/config/app.json', content, 'application/json', rules);
+		expect(await json.text()).toBe('{{name}} ${env:port}');
+		expect(json.headers.get('X-Proxy-Replace')).toBe('skipped; reason=type');
+	});
+
+	it('UTF-16 文件应按 BOM 解码并以原编码写回', async () => {
+		const original = new Uint8Array([0xff, 0xfe, ...utf16('名称: {{name}}', true)]);
+
+		const response = await request('/config/app.txt', original, 'text/plain; charset=utf-8');
+		const bytes = new Uint8Array(await response.arrayBuffer());
+
+		expect(bytes).toEqual(new Uint8Array([0xff, 0xfe, ...utf16('名称: 服务', true)]));
+		expect(response.headers.get('Content-Length')).toBe(String(bytes.length));
+	});
+
+	it('UTF-8 BOM 应保留', async () => {
+		const original = new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode('{{name}}')]);
+
+		const response = await request('/config/bom.txt', original, 'text/plain');
+
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode('服务')]));
+	});
+
+	it('GBK 文件应按 charset 解码并以 UTF-8 输出', async () => {
+		// "你好 {{name}}" 的 GBK 编码
+		const gbk = new Uint8Array([0xc4, 0xe3, 0xba, 0xc3, 0x20, ...new TextEncoder().encode('{{name}}')]);
+
+		const response = await request('/config/legacy.ini', gbk, 'text/plain; charset=utf-8', [{ ...configRule, charset: 'gbk' }]);
+
+		expect(await response.text()).toBe('你好 服务');
+		expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+	});
+
+	it('无效的 types 与 charset 应在配置校验时报告', async () => {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new Request('https://example.com/__config', { headers: { Authorization: 'Bearer admin-secret' } }),
+			replaceEnv([{ ...configRule, types: ['yml'], charset: 'klingon' }]),
+			ctx
+		);
+		const report = await response.json<{ errors: string[] }>();
+
+		expect(report.errors).toEqual([expect.stringContaining('types 必须为扩展名'), expect.stringContaining('charset 不是受支持的编码')]);
+	});
+});
@@ -335,10 +335,345 @@ port=443`);
 		const content = await response.text();
 
 		expect(response.status).toBe(200);
-		// 注意：由于是按规则顺序应用，第一个规则会匹配并处理，第二个规则不会生效
-		// 实际应用中，应该避免对同一文件应用多个规则
+		// 所有匹配的规则按顺序依次执行
 		expect(content).toContain('name: MyApp');
 		expect(content).toContain('server: api.example.com');
+		expect(content).toContain('version: 2.0.0');
+	});
+
+	it('应该按 priority 排序执行规则并支持 stop', async () => {
+		mockFetch.mockImplementationOnce(() =>
+			Promise.resolve(new Response(`host: {{db_host}}
+region: {{region}}`, {
+				status: 200,
+				headers: { 'content-type': 'text/plain' }
+			}))
+		);
+
+		const testEnv = {
+			...env,
+			GH_NAME: 'test-user',
+			GH_REPO: 'test-repo',
+			GH_BRANCH: 'main',
+			GH_TOKEN: 'test-token',
+			REPLACE_CONFIG: JSON.stringify([
+				{
+					files: ['/config/*'],
+					mode: 'template',
+					static: { db_host: 'shared.example.com', region: 'us' }
+				},
+				{
+					files: ['/config/db.yml'],
+					mode: 'template',
+					priority: 10,
+					static: { db_host: 'primary.example.com' }
+				},
+				{
+					files: ['/config/db.yml'],
+					mode: 'template',
+					priority: 5,
+					stop: true,
+					static: {}
+				}
+			])
+		};
+
+		const request = new Request('https://example.com/config/db.yml');
+		const ctx = createExecutionContext();
+
+		const response = await worker.fetch(request, testEnv, ctx);
+		const content = await response.text();
+
+		// priority 10 的规则先执行；priority 5 的规则设置了 stop，通用规则不再执行
+		expect(content).toBe(`host: primary.example.com
+region: {{region}}`);
+	});
+
+	it('错误策略应按规则分别生效', async () => {
+		mockFetch.mockImplementationOnce(() =>
+			Promise.resolve(new Response(`a: {{a}}
+b: \${env:b}`, {
+				status: 200,
+				headers: { 'content-type': 'text/plain' }
+			}))
+		);
+
+		const testEnv = {
+			...env,
+			GH_NAME: 'test-user',
+			GH_REPO: 'test-repo',
+			GH_BRANCH: 'main',
+			GH_TOKEN: 'test-token',
+			REPLACE_CONFIG: JSON.stringify([
+				{ files: ['/multi.conf'], mode: 'template', static: { a: '1' }, onError: 'error' },
+				{ files: ['/multi.conf'], mode: 'env', static: {}, onError: 'remove' }
+			])
+		};
+
+		const request = new Request('https://example.com/multi.conf');
+		const ctx = createExecutionContext();
+
+		const response = await worker.fetch(request, testEnv, ctx);
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe(`a: 1
+b: `);
+
+		// error 策略的规则缺少替换值时返回 500
+		mockFetch.mockImplementationOnce(() =>
+			Promise.resolve(new Response('a: {{missing}}', { status: 200 }))
+		);
+		const failed = await worker.fetch(new Request('https://example.com/multi.conf'), testEnv, createExecutionContext());
+		expect(failed.status).toBe(500);
+	});
+
+	it('应该支持占位符默认值与过滤器', async () => {
+		mockFetch.mockImplementation((url: string) => {
+			if (String(url).startsWith('https://api.example.com')) {
+				return Promise.resolve(Response.json({ region: 'us-east-1', tags: ['a', 'b'] }));
+			}
+			return Promise.resolve(new Response(`host: {{db_host | default:"localhost"}}
+region: {{region | upper}}
+tags: {{tags | json}}
+auth: {{credentials | base64}}
+query: \${env:search | urlencode}
+port: \${env:db_port | default:'5432'}
+missing: {{missing | upper}}`, {
+				status: 200,
+				headers: { 'content-type': 'text/plain' }
+			}));
+		});
+
+		const testEnv = {
+			...env,
+			GH_NAME: 'test-user',
+			GH_REPO: 'test-repo',
+			GH_BRANCH: 'main',
+			GH_TOKEN: 'test-token',
+			REPLACE_CONFIG: JSON.stringify([
+				{
+					files: ['/filters.conf'],
+					mode: 'template',
+					api: { url: 'https://api.example.com/filters' },
+					mappings: { region: 'region', tags: 'tags' },
+					static: { credentials: 'user:密码' }
+				},
+				{ files: ['/filters.conf'], mode: 'env', static: { search: 'a b&c' } }
+			])
+		};
+
+		const request = new Request('https://example.com/filters.conf');
+		const ctx = createExecutionContext();
+
+		const response = await worker.fetch(request, testEnv, ctx);
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe(`host: localhost
+region: US-EAST-1
+tags: ["a","b"]
+auth: ${btoa(String.fromCharCode(...new TextEncoder().encode('user:密码')))}
+query: a%20b%26c
+port: 5432
+missing: {{missing | upper}}`);
+	});
+
+	it('未知过滤器应按规则失败处理', async () => {
+		mockFetch.mockImplementationOnce(() =>
+			Promise.resolve(new Response('value: {{v | reverse}}', { status: 200 }))
+		);
+
+		const testEnv = {
+			...env,
+			GH_NAME: 'test-user',
+			GH_REPO: 'test-repo',
+			GH_BRANCH: 'main',
+			GH_TOKEN: 'test-token',
+			REPLACE_CONFIG: JSON.stringify([
+				{ files: ['/filters.conf'], mode: 'template', static: { v: '1' }, onError: 'error' }
+			])
+		};
+
+		const response = await worker.fetch(new Request('https://example.com/filters.conf'), testEnv, createExecutionContext());
+
+		expect(response.status).toBe(500);
+	});
+
+	it('原型成员名不应被识别为过滤器', async () => {
+		const testEnv = {
+			...env,
+			GH_NAME: 'test-user',
+			GH_REPO: 'test-repo',
+			GH_BRANCH: 'main',
+			GH_TOKEN: 'test-token',
+			REPLACE_CONFIG: JSON.stringify([
+				{ files: ['/proto.conf'], mode: 'template', static: { v: '1' }, onError: 'error' }
+			])
+		};
+
+		for (const filter of ['toString', 'constructor', '__proto__', 'hasOwnProperty']) {
+			mockFetch.mockImplementationOnce(() =>
+				Promise.resolve(new Response(`value: {{v | ${filter}}}`, { status: 200 }))
+			);
+
+			const response = await worker.fetch(new Request('https://example.com/proto.conf'), testEnv, createExecutionContext());
+
+			expect(response.status).toBe(500);
+		}
+	});
+
+	it('模板模式应该支持条件块与循环块', async () => {
+		mockFetch.mockImplementation((url: string) => {
+			if (String(url).startsWith('https://api.example.com')) {
+				return Promise.resolve(Response.json({
+					data: {
+						upstreams: [
+							{ address: { host: '10.0.0.1', port: 8080 }, backup: false },
+							{ address: { host: '10.0.0.2', port: 8081 }, backup: true }
+						],
+						domains: ['a.example.com', 'b.example.com']
+					}
+				}));
+			}
+			return Promise.resolve(new Response(`upstream app {
+    {{#each servers}}
+    server {{address.host}}:{{address.port}}{{#if backup}} backup{{/if}}; # {{@index}} of {{../name}}
+    {{/each}}
+}
+server_name{{#each domains}} {{this}}{{/each}};
+{{#if ssl}}
+listen 443 ssl;
+{{else}}
+listen 80;
+{{/if}}
+{{#each missing}}
+unused
+{{else}}
+# no extra
+{{/each}}`, {
+				status: 200,
+				headers: { 'content-type': 'text/plain' }
+			}));
+		});
+
+		const testEnv = {
+			...env,
+			GH_NAME: 'test-user',
+			GH_REPO: 'test-repo',
+			GH_BRANCH: 'main',
+			GH_TOKEN: 'test-token',
+			REPLACE_CONFIG: JSON.stringify([{
+				files: ['/nginx.conf'],
+				mode: 'template',
+				api: { url: 'https://api.example.com/upstreams' },
+				mappings: { servers: 'data.upstreams', domains: 'data.domains' },
+				static: { name: 'app', ssl: 'false' }
+			}])
+		};
+
+		const request = new Request('https://example.com/nginx.conf');
+		const ctx = createExecutionContext();
+
+		const response = await worker.fetch(request, testEnv, ctx);
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe(`upstream app {
+    server 10.0.0.1:8080; # 0 of app
+    server 10.0.0.2:8081 backup; # 1 of app
+}
+server_name a.example.com b.example.com;
+listen 80;
+# no extra
+`);
+	});
+
+	it('模板块未闭合时应按规则失败处理', async () => {
+		mockFetch.mockImplementationOnce(() =>
+			Promise.resolve(new Response('{{#if a}}value: {{a}}', { status: 200 }))
+		);
+
+		const testEnv = {
+			...env,
+			GH_NAME: 'test-user',
+			GH_REPO: 'test-repo',
+			GH_BRANCH: 'main',
+			GH_TOKEN: 'test-token',
+			REPLACE_CONFIG: JSON.stringify([
+				{ files: ['/blocks.conf'], mode: 'template', static: { a: '1' }, onError: 'error' }
+			])
+		};
+
+		const response = await worker.fetch(new Request('https://example.com/blocks.conf'), testEnv, createExecutionContext());
+
+		expect(response.status).toBe(500);
+	});
+
+	it('应该从允许的环境变量与 Secret 中读取替换值', async () => {
+		mockFetch.mockImplementationOnce(() =>
+			Promise.resolve(new Response(`host: \${env:REPLACE_VAR_DB_HOST}
+password: \${env:DB_PASSWORD}
+region: \${env:REPLACE_VAR_REGION}
+token: \${env:GH_TOKEN}`, {
+				status: 200,
+				headers: { 'content-type': 'text/plain' }
+			}))
+		);
+
+		const testEnv = {
+			...env,
+			GH_NAME: 'test-user',
+			GH_REPO: 'test-repo',
+			GH_BRANCH: 'main',
+			GH_TOKEN: 'test-token',
+			REPLACE_VAR_DB_HOST: 'db.internal',
+			REPLACE_VAR_REGION: 'from-env',
+			DB_PASSWORD: 's3cret',
+			REPLACE_CONFIG: JSON.stringify([{
+				files: ['/secrets.yml'],
+				mode: 'env',
+				envVars: ['REPLACE_VAR_*', 'DB_PASSWORD'],
+				static: { REPLACE_VAR_REGION: 'from-static' }
+			}])
+		};
+
+		const request = new Request('https://example.com/secrets.yml');
+		const ctx = createExecutionContext();
+
+		const response = await worker.fetch(request, testEnv, ctx);
+
+		expect(response.status).toBe(200);
+		// 未列入白名单的变量不会被读取，static 覆盖同名环境变量
+		expect(await response.text()).toBe(`host: db.internal
+password: s3cret
+region: from-static
+token: \${env:GH_TOKEN}`);
+	});
+
+	it('代理凭据始终不可读取，REPLACE_ENV_VARS 限定可读取范围', async () => {
+		const template = '${env:GH_TOKEN} ${env:ADMIN_TOKEN} ${env:URL_SIGNING_KEY} ${env:GH_REGION} ${env:REPLACE_VAR_HOST}';
+		const testEnv = {
+			...env,
+			GH_NAME: 'test-user',
+			GH_REPO: 'test-repo',
+			GH_BRANCH: 'main',
+			GH_TOKEN: 'test-token',
+			ADMIN_TOKEN: 'admin-secret',
+			URL_SIGNING_KEY: 'signing-key',
+			GH_REGION: 'eu',
+			REPLACE_VAR_HOST: 'db.internal',
+			REPLACE_CONFIG: JSON.stringify([{ files: ['/creds.conf'], mode: 'env', envVars: ['GH_*', 'ADMIN_TOKEN', 'URL_SIGNING_KEY', 'REPLACE_VAR_*'] }])
+		};
+
+		mockFetch.mockImplementationOnce(() => Promise.resolve(new Response(template, { status: 200 })));
+		const unscoped = await worker.fetch(new Request('https://example.com/creds.conf'), testEnv, createExecutionContext());
+		expect(await unscoped.text()).toBe('${env:GH_TOKEN} ${env:ADMIN_TOKEN} ${env:URL_SIGNING_KEY} eu db.internal');
+
+		mockFetch.mockImplementationOnce(() => Promise.resolve(new Response(template, { status: 200 })));
+		const scoped = await worker.fetch(
+			new Request('https://example.com/creds.conf'),
+			{ ...testEnv, REPLACE_ENV_VARS: 'REPLACE_VAR_*' },
+			createExecutionContext()
+		);
+		expect(await scoped.text()).toBe('${env:GH_TOKEN} ${env:ADMIN_TOKEN} ${env:URL_SIGNING_KEY} ${env:GH_REGION} db.internal');
 	});
 
 	it('应该支持通配符匹配文件', async () => {
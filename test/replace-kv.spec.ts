@@ -0,0 +1,108 @@
+/**
+ * @file replace-kv.spec.ts
+ * @brief KV 替换配置加载与在线更新功能集成测试
+ */
+
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const baseEnv = {
+	...env,
+	GH_NAME: 'test-user',
+	GH_REPO: 'test-repo',
+	GH_BRANCH: 'main',
+	GH_TOKEN: 'test-token',
+	ADMIN_TOKEN: 'admin-secret',
+	REPLACE_CONFIG: JSON.stringify([{ files: ['/app.conf'], mode: 'template', static: { v: 'from-env' } }]),
+};
+
+async function request(url: string, init: RequestInit = {}, testEnv: Record<string, unknown> = baseEnv) {
+	const ctx = createExecutionContext();
+	return worker.fetch(new Request(url, init), testEnv as typeof baseEnv, ctx);
+}
+
+async function pushConfig(config: unknown, testEnv: Record<string, unknown> = baseEnv) {
+	return request(
+		'https://example.com/__config',
+		{ method: 'PUT', headers: { Authorization: 'Bearer admin-secret' }, body: JSON.stringify(config) },
+		testEnv
+	);
+}
+
+describe('KV 替换配置功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockFetch.mockImplementation(() => Promise.resolve(new Response('value: {{v}}', { status: 200 })));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('KV 中没有配置时应回退到 REPLACE_CONFIG', async () => {
+		const response = await request('https://example.com/app.conf');
+
+		expect(await response.text()).toBe('value: from-env');
+	});
+
+	it('无效配置应被拒绝且不写入 KV', async () => {
+		const response = await pushConfig([{ files: ['/app.conf'], mode: 'tempalte' }]);
+
+		expect(response.status).toBe(400);
+		const report = await response.json<{ saved: boolean; errors: string[] }>();
+		expect(report.saved).toBe(false);
+		expect(report.errors[0]).toContain('规则 #0: mode');
+		expect(await env.REPLACE_KV.get('replace-config')).toBeNull();
+	});
+
+	it('推送配置后应立即生效并支持引用值表', async () => {
+		const response = await pushConfig({
+			values: { prod: { v: 'from-kv', region: 'eu' } },
+			rules: [{ files: ['/app.conf'], mode: 'template', staticFrom: 'prod', static: { region: 'us' } }],
+		});
+		expect(response.status).toBe(200);
+
+		const file = await request('https://example.com/app.conf');
+		expect(await file.text()).toBe('value: from-kv');
+
+		const diagnostics = await request('https://example.com/__config', { headers: { Authorization: 'Bearer admin-secret' } });
+		const report = await diagnostics.json<{ source: string; rules: Array<{ static: Record<string, string> }> }>();
+		expect(report.source).toBe('kv');
+		expect(report.rules[0].static).toEqual({ v: 'from-kv', region: 'us' });
+	});
+
+	it('引用不存在的值表应报错', async () => {
+		const response = await pushConfig({ rules: [{ files: ['/app.conf'], mode: 'template', staticFrom: 'missing' }] });
+
+		expect(response.status).toBe(400);
+		expect((await response.json<{ errors: string[] }>()).errors).toEqual([expect.stringContaining('值表 "missing" 不存在')]);
+	});
+
+	it('直接写入 KV 的配置应在缓存过期后生效', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		await pushConfig([{ files: ['/app.conf'], mode: 'template', static: { v: 'first' } }]);
+		await env.REPLACE_KV.put('replace-config', JSON.stringify([{ files: ['/app.conf'], mode: 'template', static: { v: 'second' } }]));
+
+		expect(await (await request('https://example.com/app.conf')).text()).toBe('value: first');
+
+		vi.advanceTimersByTime(31 * 1000);
+		expect(await (await request('https://example.com/app.conf')).text()).toBe('value: second');
+	});
+
+	it('未绑定 KV 时推送配置应返回 501', async () => {
+		const response = await pushConfig([], { ...baseEnv, REPLACE_KV: undefined });
+
+		expect(response.status).toBe(501);
+	});
+
+	it('推送配置需要管理令牌', async () => {
+		const response = await request('https://example.com/__config', { method: 'PUT', body: '[]' });
+
+		expect(response.status).toBe(404);
+	});
+});
@@ -0,0 +1,189 @@
+/**
+ * @file replace-stream.spec.ts
+ * @brief 大文件流式替换功能集成测试
+ */
+
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const encoder = new TextEncoder();
+
+const testEnv = {
+	...env,
+	GH_NAME: 'test-user',
+	GH_REPO: 'test-repo',
+	GH_BRANCH: 'main',
+	GH_TOKEN: 'test-token',
+	REPLACE_STREAM_THRESHOLD: '16',
+	REPLACE_CONFIG: JSON.stringify([
+		{
+			files: ['/app.conf'],
+			mode: 'template',
+			static: { db_host: 'db.internal', 名称: '服务' },
+			api: { url: 'https://api.example.com/stream' },
+			mappings: { items: 'items', enabled: 'enabled' },
+		},
+		{ files: ['/app.conf'], mode: 'env', static: { port: '6432' } },
+		{ files: ['/app.json'], mode: 'structured', keys: { host: 'db_host' }, static: { db_host: 'db.internal' } },
+	]),
+};
+
+/**
+ * @brief 模拟上游：GitHub 按给定分块返回文件，API 返回列表数据
+ *
+ * chunked 为 true 时不返回 Content-Length，模拟分块编码的响应。
+ */
+function mockUpstream(chunks: Array<string | Uint8Array>, chunked = false) {
+	const bytes = chunks.map((chunk) => (typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+	const length = bytes.reduce((sum, chunk) => sum + chunk.length, 0);
+	const headers: Record<string, string> = chunked ? { ETag: '"origin"' } : { 'Content-Length': String(length), ETag: '"origin"' };
+
+	mockFetch.mockImplementation((url: string) => {
+		if (!String(url).startsWith('https://raw.githubusercontent.com')) {
+			return Promise.resolve(Response.json({ items: ['a', 'b'], enabled: true }));
+		}
+		const body = new ReadableStream<Uint8Array>({
+			start(controller) {
+				bytes.forEach((chunk) => controller.enqueue(chunk));
+				controller.close();
+			},
+		});
+		return Promise.resolve(new Response(body, { headers }));
+	});
+}
+
+async function request(path: string, init: RequestInit = {}, env = testEnv) {
+	const ctx = createExecutionContext();
+	return worker.fetch(new Request(`https://example.com${path}`, init), env, ctx);
+}
+
+function apiCallCount() {
+	return mockFetch.mock.calls.filter(([url]) => !String(url).startsWith('https://raw.githubusercontent.com')).length;
+}
+
+describe('流式替换功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('应该处理跨分块的占位符并只请求一次 API', async () => {
+		mockUpstream(['host: {', '{db', '_host}}\nport: ${en', 'v:port}\n', 'x'.repeat(32), '\nend: {{db_host | up', 'per}}']);
+
+		const response = await request('/app.conf');
+
+		expect(await response.text()).toBe(`host: db.internal\nport: 6432\n${'x'.repeat(32)}\nend: DB.INTERNAL`);
+		expect(response.headers.get('Content-Length')).toBeNull();
+		expect(response.headers.get('ETag')).toBeNull();
+		expect(response.headers.get('Accept-Ranges')).toBe('none');
+		expect(apiCallCount()).toBe(1);
+	});
+
+	it('应该处理跨分块的模板块与独占一行的标签', async () => {
+		mockUpstream(['list:\n{{#each items}}\n  - {{th', 'is}}\n{{/e', 'ach}}\n{{#if enabled}}\non', '\n{{/if}}\ndone\n']);
+
+		const response = await request('/app.conf');
+
+		expect(await response.text()).toBe('list:\n  - a\n  - b\non\ndone\n');
+	});
+
+	it('应该正确解码跨分块的多字节字符', async () => {
+		const bytes = encoder.encode('{{名称}}: 名称服务配置\n');
+		mockUpstream([bytes.slice(0, 4), bytes.slice(4, 13), bytes.slice(13)]);
+
+		const response = await request('/app.conf');
+
+		expect(await response.text()).toBe('服务: 名称服务配置\n');
+	});
+
+	it('替换结果应在上游读取完成前开始输出', async () => {
+		let upstream!: ReadableStreamDefaultController<Uint8Array>;
+		const body = new ReadableStream<Uint8Array>({ start: (controller) => void (upstream = controller) });
+		mockFetch.mockImplementation((url: string) =>
+			Promise.resolve(
+				String(url).startsWith('https://raw.githubusercontent.com')
+					? new Response(body, { headers: { 'Content-Length': '1000000' } })
+					: Response.json({})
+			)
+		);
+
+		// 超过二进制嗅探读取的长度后开始替换
+		const padding = 'x'.repeat(8000);
+		const pending = request('/app.conf');
+		upstream.enqueue(encoder.encode(`host: {{db_host}}\n${padding}\nnext: {{db`));
+		const reader = (await pending).body!.getReader();
+
+		const first = new TextDecoder().decode((await reader.read()).value);
+		expect(first.startsWith('host: db.internal\n')).toBe(true);
+
+		upstream.enqueue(encoder.encode('_host}}'));
+		upstream.close();
+		let output = first;
+		for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+			output += new TextDecoder().decode(chunk.value);
+		}
+		expect(output).toBe(`host: db.internal\n${padding}\nnext: db.internal`);
+	});
+
+	it('紧跟 $ 或 { 的块标签，流式结果应与整体替换一致', async () => {
+		// 首个分块超过二进制嗅探长度并止于块内，块内换行处可切分时未计入的块标签会导致在块内切分
+		const padding = 'x'.repeat(8000) + '\n';
+		const cases = [
+			[`${padding}a \${{#each items}}\n- {{this}}\n`, '{{/each}}\nb\n'],
+			[`${padding}{{{#if enabled}}\nyes\n`, '{{/if}}}\n'],
+			[`${padding}x \${{#if enabled}}\nA \${{#each items}}\n{{this}}\n`, '{{/each}}\n{{/if}}\n'],
+		];
+
+		for (const chunks of cases) {
+			mockUpstream(chunks);
+			const buffered = await (await request('/app.conf', {}, { ...testEnv, REPLACE_STREAM_THRESHOLD: '1048576' })).text();
+
+			mockUpstream(chunks);
+			const streamed = await request('/app.conf');
+			expect(streamed.headers.get('Accept-Ranges')).toBe('none');
+			expect(await streamed.text()).toBe(buffered);
+			expect(buffered).not.toContain('{{');
+		}
+	});
+
+	it('流式响应应忽略范围请求', async () => {
+		mockUpstream(['host: {{db_host}}\n', 'y'.repeat(32)]);
+
+		const response = await request('/app.conf', { headers: { Range: 'bytes=0-3' } });
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe(`host: db.internal\n${'y'.repeat(32)}`);
+	});
+
+	it('长度未知的文件在阈值内整体替换，超过阈值后流式替换', async () => {
+		mockUpstream(['v: {{db_', 'host}}'], true);
+		const small = await request('/app.conf');
+		expect(await small.text()).toBe('v: db.internal');
+		expect(small.headers.get('Content-Length')).toBe('14');
+		expect(small.headers.get('ETag')).not.toBeNull();
+		expect(small.headers.get('Accept-Ranges')).toBe('bytes');
+
+		mockUpstream(['v: {{db_', 'host}}\n', 'w'.repeat(32)], true);
+		const large = await request('/app.conf');
+		expect(await large.text()).toBe(`v: db.internal\n${'w'.repeat(32)}`);
+		expect(large.headers.get('ETag')).toBeNull();
+		expect(large.headers.get('Accept-Ranges')).toBe('none');
+	});
+
+	it('小文件与 structured 模式仍整体替换', async () => {
+		mockUpstream(['{"host": "localhost", ', '"pad": "', 'z'.repeat(32), '"}']);
+
+		const structured = await request('/app.json');
+		expect(await structured.json()).toEqual({ host: 'db.internal', pad: 'z'.repeat(32) });
+		expect(structured.headers.get('ETag')).not.toBeNull();
+
+		mockUpstream(['v: {{db_host}}']);
+		const small = await request('/app.conf');
+		expect(await small.text()).toBe('v: db.internal');
+		expect(small.headers.get('Content-Length')).toBe('14');
+	});
+});
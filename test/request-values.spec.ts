@@ -0,0 +1,137 @@
+/**
+ * @file request-values.spec.ts
+ * @brief 请求上下文占位符功能集成测试
+ */
+
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+function replaceEnv(rules: unknown[], extra: Record<string, string> = {}) {
+	return {
+		...env,
+		GH_NAME: 'test-user',
+		GH_REPO: 'test-repo',
+		GH_BRANCH: 'main',
+		GH_TOKEN: 'test-token',
+		ADMIN_TOKEN: 'admin-secret',
+		REPLACE_CONFIG: JSON.stringify(rules),
+		...extra,
+	};
+}
+
+/**
+ * @brief 模拟上游：GitHub 返回模板，API 返回请求地址中的区域
+ */
+function mockUpstream(template: string) {
+	mockFetch.mockImplementation((url: string) =>
+		Promise.resolve(
+			String(url).startsWith('https://raw.githubusercontent.com')
+				? new Response(template)
+				: Response.json({ endpoint: `${new URL(String(url)).pathname.split('/')[1]}.api.internal` })
+		)
+	);
+}
+
+async function request(url: string, init: RequestInit, testEnv: ReturnType<typeof replaceEnv>) {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(new Request(url, init), testEnv, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+function apiCalls() {
+	return mockFetch.mock.calls.map(([url]) => String(url)).filter((url) => !url.startsWith('https://raw.githubusercontent.com'));
+}
+
+describe('请求上下文占位符功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('应该替换白名单内的查询参数、请求头、cf 字段与客户端 IP', async () => {
+		mockUpstream('{{request.query.region}} {{request.header.X-Tenant}} {{request.cf.country}} {{request.ip}} {{request.header.Cookie}}');
+		const testEnv = replaceEnv([
+			{ files: ['/app.conf'], mode: 'template', requestVars: ['query.region', 'header.X-Tenant', 'cf.*', 'ip'] },
+		]);
+
+		const response = await request(
+			'https://example.com/app.conf?region=eu&debug=1',
+			{ headers: { 'X-Tenant': 'acme', 'CF-Connecting-IP': '203.0.113.7', Cookie: 'session=secret' }, cf: { country: 'DE' } },
+			testEnv
+		);
+
+		// 未列入白名单的请求头不会被回显
+		expect(await response.text()).toBe('eu acme DE 203.0.113.7 {{request.header.Cookie}}');
+		expect(response.headers.get('Vary')).toContain('X-Tenant');
+	});
+
+	it('API 地址应展开请求值并进行 URL 编码', async () => {
+		mockUpstream('{{endpoint}}');
+		const testEnv = replaceEnv([
+			{
+				files: ['/api.conf'],
+				mode: 'template',
+				requestVars: ['query.region'],
+				api: { url: 'https://api.example.com/{{request.query.region | default:"us"}}/settings' },
+				mappings: { endpoint: 'endpoint' },
+			},
+		]);
+
+		expect(await (await request('https://example.com/api.conf?region=ap south', {}, testEnv)).text()).toBe('ap%20south.api.internal');
+		expect(await (await request('https://example.com/api.conf', {}, testEnv)).text()).toBe('us.api.internal');
+		expect(apiCalls()).toEqual(['https://api.example.com/ap%20south/settings', 'https://api.example.com/us/settings']);
+	});
+
+	it('API 地址缺少替换值时应跳过请求', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		mockUpstream('value: {{endpoint}}');
+		const testEnv = replaceEnv([
+			{
+				files: ['/missing.conf'],
+				mode: 'template',
+				requestVars: ['header.X-Tenant'],
+				api: { url: 'https://api.example.com/{{request.header.X-Tenant}}' },
+				mappings: { endpoint: 'endpoint' },
+				onError: 'remove',
+			},
+		]);
+
+		expect(await (await request('https://example.com/missing.conf', {}, testEnv)).text()).toBe('value: ');
+		expect(apiCalls()).toEqual([]);
+		warn.mockRestore();
+	});
+
+	it('边缘缓存应按请求值分别缓存', async () => {
+		mockUpstream('tenant: {{request.header.X-Tenant}}');
+		const testEnv = replaceEnv([{ files: ['/tenant.conf'], mode: 'template', requestVars: ['header.X-Tenant'] }], {
+			CACHE_CONFIG: JSON.stringify([{ files: ['/**'], ttl: 60 }]),
+		});
+
+		const first = await request('https://example.com/tenant.conf', { headers: { 'X-Tenant': 'a' } }, testEnv);
+		expect(await first.text()).toBe('tenant: a');
+		expect(first.headers.get('X-Proxy-Cache')).toBe('MISS');
+
+		const other = await request('https://example.com/tenant.conf', { headers: { 'X-Tenant': 'b' } }, testEnv);
+		expect(await other.text()).toBe('tenant: b');
+		expect(other.headers.get('X-Proxy-Cache')).toBe('MISS');
+
+		const again = await request('https://example.com/tenant.conf', { headers: { 'X-Tenant': 'a' } }, testEnv);
+		expect(await again.text()).toBe('tenant: a');
+		expect(again.headers.get('X-Proxy-Cache')).toBe('HIT');
+	});
+
+	it('请求头不允许使用通配', async () => {
+		const testEnv = replaceEnv([{ files: ['/app.conf'], mode: 'template', requestVars: ['header.*'] }]);
+
+		const response = await request('https://example.com/__config', { headers: { Authorization: 'Bearer admin-secret' } }, testEnv);
+		const report = await response.json<{ valid: boolean; errors: string[] }>();
+
+		expect(report.valid).toBe(false);
+		expect(report.errors).toEqual([expect.stringContaining('规则 #0: requestVars')]);
+	});
+});
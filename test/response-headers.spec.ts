@@ -0,0 +1,112 @@
+/**
+ * @file response-headers.spec.ts
+ * @brief Content-Type 修正与响应头规则功能集成测试
+ */
+
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+/* 模拟 raw.githubusercontent.com 的响应头 */
+const githubHeaders = {
+	'Content-Type': 'text/plain; charset=utf-8',
+	'X-Content-Type-Options': 'nosniff',
+	'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+	'Cache-Control': 'max-age=300',
+	ETag: '"origin"',
+};
+
+const baseEnv = {
+	...env,
+	GH_NAME: 'test-user',
+	GH_REPO: 'test-repo',
+	GH_BRANCH: 'main',
+	GH_TOKEN: 'test-token',
+	HEADER_CONFIG: JSON.stringify([
+		{ files: ['/site/**'], headers: { 'Content-Security-Policy': null, 'Cache-Control': 'public, max-age=600' } },
+		{ files: ['/site/*.js'], headers: { 'Access-Control-Allow-Origin': '*', 'Cache-Control': 'public, max-age=31536000, immutable' } },
+		{ files: ['/downloads/**'], headers: { 'Content-Disposition': 'attachment' } },
+		{ files: ['/raw/*.html'], headers: { 'Content-Type': 'text/plain; charset=utf-8' } },
+	]),
+};
+
+async function request(url: string, init?: RequestInit, testEnv: Record<string, unknown> = baseEnv) {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(new Request(url, init), testEnv as typeof baseEnv, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+describe('响应头规则功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockFetch.mockImplementation((url: string) =>
+			Promise.resolve(
+				new Response('content', {
+					headers: String(url).endsWith('.wasm') ? { ...githubHeaders, 'Content-Type': 'application/octet-stream' } : githubHeaders,
+				})
+			)
+		);
+	});
+
+	it('应该按扩展名修正 GitHub 返回的通用 Content-Type', async () => {
+		const html = await request('https://example.com/docs/index.html');
+		expect(html.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+		expect(html.headers.get('X-Content-Type-Options')).toBe('nosniff');
+
+		const wasm = await request('https://example.com/docs/app.wasm');
+		expect(wasm.headers.get('Content-Type')).toBe('application/wasm');
+
+		const yaml = await request('https://example.com/docs/app.yml');
+		expect(yaml.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+	});
+
+	it('应该按配置顺序设置与移除响应头', async () => {
+		const page = await request('https://example.com/site/index.html');
+		expect(page.headers.get('Content-Security-Policy')).toBeNull();
+		expect(page.headers.get('Cache-Control')).toBe('public, max-age=600');
+		expect(page.headers.get('Access-Control-Allow-Origin')).toBeNull();
+
+		const script = await request('https://example.com/site/app.js');
+		expect(script.headers.get('Content-Type')).toBe('text/javascript; charset=utf-8');
+		expect(script.headers.get('Access-Control-Allow-Origin')).toBe('*');
+		expect(script.headers.get('Cache-Control')).toBe('public, max-age=31536000, immutable');
+
+		const download = await request('https://example.com/downloads/report.pdf');
+		expect(download.headers.get('Content-Disposition')).toBe('attachment');
+		expect(download.headers.get('Content-Security-Policy')).not.toBeNull();
+	});
+
+	it('规则中的 Content-Type 应覆盖扩展名映射', async () => {
+		const response = await request('https://example.com/raw/page.html');
+
+		expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+	});
+
+	it('命中边缘缓存与 304 响应同样应用规则', async () => {
+		const testEnv = { ...baseEnv, CACHE_CONFIG: JSON.stringify([{ files: ['/**'], ttl: 60 }]) };
+
+		await request('https://example.com/site/cached.js', undefined, testEnv);
+		const hit = await request('https://example.com/site/cached.js', undefined, testEnv);
+		expect(hit.headers.get('X-Proxy-Cache')).toBe('HIT');
+		expect(hit.headers.get('Cache-Control')).toBe('public, max-age=31536000, immutable');
+		expect(hit.headers.get('Content-Type')).toBe('text/javascript; charset=utf-8');
+
+		const notModified = await request('https://example.com/site/cached.js', { headers: { 'If-None-Match': '"origin"' } }, testEnv);
+		expect(notModified.status).toBe(304);
+		expect(notModified.headers.get('Access-Control-Allow-Origin')).toBe('*');
+	});
+
+	it('错误响应不应用规则', async () => {
+		mockFetch.mockImplementation(() => Promise.resolve(new Response('boom', { status: 500 })));
+
+		const response = await request('https://example.com/site/broken.html');
+
+		expect(response.status).toBe(500);
+		expect(response.headers.get('Cache-Control')).toBeNull();
+	});
+});
@@ -0,0 +1,88 @@
+/**
+ * @file routing.spec.ts
+ * @brief 多仓库路由功能集成测试
+ */
+
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const baseEnv = {
+	...env,
+	GH_NAME: 'default-user',
+	GH_REPO: 'default-repo',
+	GH_BRANCH: 'main',
+	GH_TOKEN: 'default-token',
+	ROUTES: JSON.stringify([
+		{ prefix: '/docs', owner: 'team', repo: 'docs', branch: 'gh-pages', token: 'docs-token' },
+		{ prefix: '/docs/api', owner: 'team', repo: 'api-docs' },
+		{ host: 'assets.example.com', owner: 'team', repo: 'assets', branch: 'release' },
+	]),
+};
+
+/**
+ * @brief 发起请求并返回 GitHub 上游收到的 URL 与 Authorization 头
+ */
+async function fetchUpstream(url: string, testEnv: typeof baseEnv = baseEnv) {
+	mockFetch.mockImplementationOnce(() => Promise.resolve(new Response('ok', { status: 200 })));
+
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(new Request(url), testEnv, ctx);
+	expect(response.status).toBe(200);
+
+	const [upstreamUrl, init] = mockFetch.mock.calls[0];
+	return {
+		url: String(upstreamUrl),
+		authorization: new Headers(init?.headers).get('Authorization'),
+	};
+}
+
+describe('多仓库路由功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('应该按路径前缀路由并去除前缀', async () => {
+		const upstream = await fetchUpstream('https://example.com/docs/guide/intro.md');
+
+		expect(upstream.url).toBe('https://raw.githubusercontent.com/team/docs/gh-pages/guide/intro.md');
+		expect(upstream.authorization).toBe('token docs-token');
+	});
+
+	it('应该优先使用最长前缀匹配', async () => {
+		const upstream = await fetchUpstream('https://example.com/docs/api/v1.md');
+
+		expect(upstream.url).toBe('https://raw.githubusercontent.com/team/api-docs/v1.md');
+		// 未配置 token 时回退至 GH_TOKEN
+		expect(upstream.authorization).toBe('token default-token');
+	});
+
+	it('前缀应按路径段匹配', async () => {
+		const upstream = await fetchUpstream('https://example.com/docs2/readme.md');
+
+		expect(upstream.url).toBe('https://raw.githubusercontent.com/default-user/default-repo/main/docs2/readme.md');
+	});
+
+	it('应该支持按主机名路由', async () => {
+		const upstream = await fetchUpstream('https://assets.example.com/img/logo.svg');
+
+		expect(upstream.url).toBe('https://raw.githubusercontent.com/team/assets/release/img/logo.svg');
+	});
+
+	it('未命中任何路由时应使用默认仓库配置', async () => {
+		const upstream = await fetchUpstream('https://example.com/src/index.ts');
+
+		expect(upstream.url).toBe('https://raw.githubusercontent.com/default-user/default-repo/main/src/index.ts');
+		expect(upstream.authorization).toBe('token default-token');
+	});
+
+	it('ROUTES 配置无效时应回退到默认仓库配置', async () => {
+		const upstream = await fetchUpstream('https://example.com/docs/guide.md', { ...baseEnv, ROUTES: '{invalid' });
+
+		expect(upstream.url).toBe('https://raw.githubusercontent.com/default-user/default-repo/main/docs/guide.md');
+	});
+});
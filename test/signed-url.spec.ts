@@ -0,0 +1,148 @@
+/**
+ * @file signed-url.spec.ts
+ * @brief 签名 URL 鉴权功能集成测试
+ */
+
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const baseEnv = {
+	...env,
+	GH_NAME: 'test-user',
+	GH_REPO: 'test-repo',
+	GH_BRANCH: 'main',
+	GH_TOKEN: 'test-token',
+	AUTH_PATHS: 'config:abc123',
+	URL_SIGNING_KEY: 'signing-key',
+	ADMIN_TOKEN: 'admin-secret',
+};
+
+async function request(url: string, init?: RequestInit, testEnv: Record<string, unknown> = baseEnv) {
+	const ctx = createExecutionContext();
+	return worker.fetch(new Request(url, init), testEnv as typeof baseEnv, ctx);
+}
+
+/**
+ * @brief 通过签名接口获取签名 URL
+ */
+async function mintUrl(query: string, testEnv: Record<string, unknown> = baseEnv): Promise<string> {
+	const response = await request(`https://example.com/__sign?${query}`, { headers: { Authorization: 'Bearer admin-secret' } }, testEnv);
+	expect(response.status).toBe(200);
+	const data = await response.json<{ url: string; expires: number }>();
+	return data.url;
+}
+
+describe('签名 URL 鉴权功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockFetch.mockImplementation(() => Promise.resolve(new Response('secret content', { status: 200 })));
+	});
+
+	it('有效签名应允许访问受保护目录', async () => {
+		const signedUrl = await mintUrl('path=/config/app.yml&ttl=60');
+		const response = await request(signedUrl);
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe('secret content');
+	});
+
+	it('签名不能用于其它路径', async () => {
+		const signedUrl = new URL(await mintUrl('path=/config/app.yml'));
+		signedUrl.pathname = '/config/db.yml';
+
+		const response = await request(signedUrl.toString());
+		expect(response.status).toBe(404);
+	});
+
+	it('过期或被篡改的签名应被拒绝', async () => {
+		const signedUrl = new URL(await mintUrl('path=/config/app.yml'));
+
+		signedUrl.searchParams.set('expires', String(Math.floor(Date.now() / 1000) - 10));
+		expect((await request(signedUrl.toString())).status).toBe(404);
+
+		const tampered = new URL(await mintUrl('path=/config/app.yml'));
+		tampered.searchParams.set('sig', '0'.repeat(64));
+		expect((await request(tampered.toString())).status).toBe(404);
+	});
+
+	it('绑定 IP 的签名只允许对应客户端访问', async () => {
+		const signedUrl = await mintUrl('path=/config/app.yml&ip=203.0.113.7');
+
+		const allowed = await request(signedUrl, { headers: { 'CF-Connecting-IP': '203.0.113.7' } });
+		expect(allowed.status).toBe(200);
+
+		const denied = await request(signedUrl, { headers: { 'CF-Connecting-IP': '198.51.100.1' } });
+		expect(denied.status).toBe(404);
+	});
+
+	it('签名只对签发时的 ref 有效', async () => {
+		const refEnv = { ...baseEnv, ALLOWED_REFS: 'main,develop,v1.2.0' };
+
+		const defaultUrl = new URL(await mintUrl('path=/config/app.yml', refEnv));
+		expect((await request(defaultUrl.toString(), undefined, refEnv)).status).toBe(200);
+
+		const queryRef = new URL(defaultUrl);
+		queryRef.searchParams.set('ref', 'develop');
+		expect((await request(queryRef.toString(), undefined, refEnv)).status).toBe(404);
+
+		const pathRef = new URL(defaultUrl);
+		pathRef.pathname = '/@develop/config/app.yml';
+		expect((await request(pathRef.toString(), undefined, refEnv)).status).toBe(404);
+
+		const taggedUrl = new URL(await mintUrl('path=/config/app.yml&ref=v1.2.0', refEnv));
+		expect(taggedUrl.searchParams.get('ref')).toBe('v1.2.0');
+		expect((await request(taggedUrl.toString(), undefined, refEnv)).status).toBe(200);
+		expect(String(mockFetch.mock.lastCall?.[0])).toContain('/v1.2.0/config/app.yml');
+
+		taggedUrl.searchParams.set('ref', 'develop');
+		expect((await request(taggedUrl.toString(), undefined, refEnv)).status).toBe(404);
+	});
+
+	it('签名接口应拒绝不在白名单内的 ref', async () => {
+		const headers = { Authorization: 'Bearer admin-secret' };
+
+		const notAllowed = await request('https://example.com/__sign?path=/config/app.yml&ref=feature', { headers }, {
+			...baseEnv,
+			ALLOWED_REFS: 'main',
+		});
+		expect(notAllowed.status).toBe(400);
+
+		const noAllowlist = await request('https://example.com/__sign?path=/config/app.yml&ref=develop', { headers });
+		expect(noAllowlist.status).toBe(400);
+	});
+
+	it('迁移期间应兼容静态 secret，停用后拒绝', async () => {
+		const legacy = await request('https://example.com/config/app.yml?secret=abc123');
+		expect(legacy.status).toBe(200);
+
+		const disabled = await request('https://example.com/config/app.yml?secret=abc123', undefined, {
+			...baseEnv,
+			DISABLE_LEGACY_SECRET: 'true',
+		});
+		expect(disabled.status).toBe(404);
+	});
+
+	it('签名接口需携带管理令牌，签名密钥本身不可用于鉴权', async () => {
+		const wrong = await request('https://example.com/__sign?path=/config/app.yml', {
+			headers: { Authorization: 'Bearer wrong-key' },
+		});
+		expect(wrong.status).toBe(404);
+
+		const signingKey = await request('https://example.com/__sign?path=/config/app.yml', {
+			headers: { Authorization: 'Bearer signing-key' },
+		});
+		expect(signingKey.status).toBe(404);
+
+		const noAdmin = await request(
+			'https://example.com/__sign?path=/config/app.yml',
+			{ headers: { Authorization: 'Bearer admin-secret' } },
+			{ ...baseEnv, ADMIN_TOKEN: undefined }
+		);
+		expect(noAdmin.status).toBe(404);
+	});
+});
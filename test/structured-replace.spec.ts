@@ -0,0 +1,148 @@
+/**
+ * @file structured-replace.spec.ts
+ * @brief JSON / YAML 结构化替换功能集成测试
+ */
+
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+function replaceEnv(rules: unknown[]) {
+	return {
+		...env,
+		GH_NAME: 'test-user',
+		GH_REPO: 'test-repo',
+		GH_BRANCH: 'main',
+		GH_TOKEN: 'test-token',
+		REPLACE_CONFIG: JSON.stringify(rules),
+	};
+}
+
+/**
+ * @brief 以指定文件内容模拟上游并请求代理
+ */
+async function request(url: string, content: string, rules: unknown[]) {
+	mockFetch.mockImplementation((target: string) =>
+		Promise.resolve(String(target).startsWith('https://api.example.com') ? Response.json({ db: { port: 6432 } }) : new Response(content))
+	);
+	const ctx = createExecutionContext();
+	return worker.fetch(new Request(url), replaceEnv(rules), ctx);
+}
+
+describe('结构化替换功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('应该按键路径设置 JSON 值并正确转义', async () => {
+		const original = JSON.stringify({ database: { host: 'localhost', port: 5432 }, servers: ['a', 'b'] }, null, 4) + '\n';
+		const response = await request('https://example.com/config/app.json', original, [
+			{
+				files: ['/config/*.json'],
+				mode: 'structured',
+				keys: { 'database.host': 'db_host', 'database.port': 'db_port', 'servers.1': 'backup', 'database.password': 'db_password' },
+				static: { db_host: 'db.example.com', backup: 'c', db_password: 'p"a\\ss\nword' },
+				api: { url: 'https://api.example.com/json-values' },
+				mappings: { db_port: 'db.port' },
+			},
+		]);
+
+		expect(response.status).toBe(200);
+		const content = await response.text();
+		expect(JSON.parse(content)).toEqual({
+			database: { host: 'db.example.com', port: 6432, password: 'p"a\\ss\nword' },
+			servers: ['a', 'c'],
+		});
+		// 保留原文档的缩进与结尾换行
+		expect(content).toContain('\n    "database": {');
+		expect(content.endsWith('}\n')).toBe(true);
+	});
+
+	it('应该按键路径改写 YAML 值并保留注释与格式', async () => {
+		const original = `# 应用配置
+database:
+  host: localhost   # 数据库地址
+  port: 5432
+  "user name": 'root'
+cache:
+  host: localhost
+script: |
+  host: keep-me
+`;
+		const response = await request('https://example.com/config/app.yml', original, [
+			{
+				files: ['/config/app.yml'],
+				mode: 'structured',
+				keys: { 'database.host': 'db_host', 'database.port': 'db_port', 'database.user name': 'user' },
+				static: { db_host: 'db: "primary"', user: 'admin' },
+				api: { url: 'https://api.example.com/yaml-values' },
+				mappings: { db_port: 'db.port' },
+			},
+		]);
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe(`# 应用配置
+database:
+  host: "db: \\"primary\\""   # 数据库地址
+  port: 6432
+  "user name": "admin"
+cache:
+  host: localhost
+script: |
+  host: keep-me
+`);
+	});
+
+	it('文档无法解析时应返回错误', async () => {
+		const rules = [{ files: ['/config/*'], mode: 'structured', keys: { 'a.b': 'v' }, static: { v: '1' } }];
+
+		const brokenJson = await request('https://example.com/config/app.json', '{"a": {"b": 1}', rules);
+		expect(brokenJson.status).toBe(500);
+
+		const brokenYaml = await request('https://example.com/config/app.yaml', 'a:\n\tb: 1\n', rules);
+		expect(brokenYaml.status).toBe(500);
+	});
+
+	it('键路径不存在或缺少替换值时按错误策略处理', async () => {
+		const original = JSON.stringify({ a: { b: 1, c: 2 } });
+
+		const missingPath = await request('https://example.com/app.json', original, [
+			{ files: ['/app.json'], mode: 'structured', keys: { 'x.y': 'v' }, static: { v: '1' } },
+		]);
+		expect(missingPath.status).toBe(500);
+
+		const removed = await request('https://example.com/app.json', original, [
+			{ files: ['/app.json'], mode: 'structured', keys: { 'a.b': 'v', 'a.c': 'missing' }, static: { v: 'x' }, onError: 'remove' },
+		]);
+		expect(await removed.json()).toEqual({ a: { b: 'x' } });
+	});
+
+	it('数组下的非下标键应视为路径不存在，不应误删元素', async () => {
+		const original = JSON.stringify({ servers: ['a', 'b'] });
+
+		for (const key of ['servers.name', 'servers.5', 'servers.-1']) {
+			const response = await request('https://example.com/app.json', original, [
+				{ files: ['/app.json'], mode: 'structured', keys: { [key]: 'missing' }, onError: 'remove' },
+			]);
+			// 路径不存在时跳过该规则，原文档保持不变
+			expect(await response.json()).toEqual({ servers: ['a', 'b'] });
+		}
+
+		const removed = await request('https://example.com/app.json', original, [
+			{ files: ['/app.json'], mode: 'structured', keys: { 'servers.1': 'missing' }, onError: 'remove' },
+		]);
+		expect(await removed.json()).toEqual({ servers: ['a'] });
+	});
+
+	it('无法识别扩展名时应使用 format 指定格式', async () => {
+		const response = await request('https://example.com/app.conf', 'key: old\n', [
+			{ files: ['/app.conf'], mode: 'structured', format: 'yaml', keys: { key: 'v' }, static: { v: 'new' } },
+		]);
+
+		expect(await response.text()).toBe('key: "new"\n');
+	});
+});
@@ -0,0 +1,117 @@
+/**
+ * @file token-pool.spec.ts
+ * @brief Token 池轮换功能集成测试
+ */
+
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../src/index';
+
+// 模拟 fetch 函数
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+// 记录每次上游请求实际携带的 Authorization
+let usedTokens: string[] = [];
+
+/**
+ * @brief 按 Token 返回预设的上游响应
+ */
+function mockUpstream(responder: (token: string) => Response) {
+	mockFetch.mockImplementation((_url: string, init: RequestInit) => {
+		const token = new Headers(init.headers).get('Authorization')!.replace('token ', '');
+		usedTokens.push(token);
+		return Promise.resolve(responder(token));
+	});
+}
+
+function poolEnv(prefix: string) {
+	return {
+		...env,
+		GH_NAME: 'test-user',
+		GH_REPO: 'test-repo',
+		GH_BRANCH: 'main',
+		GH_TOKEN: `${prefix}-0`,
+		GH_TOKENS: `${prefix}-1, ${prefix}-2`,
+	};
+}
+
+async function request(url: string, testEnv: ReturnType<typeof poolEnv>) {
+	const ctx = createExecutionContext();
+	return worker.fetch(new Request(url), testEnv, ctx);
+}
+
+function rateLimited(remaining: number) {
+	return {
+		'X-RateLimit-Remaining': String(remaining),
+		'X-RateLimit-Reset': String(Math.floor(Date.now() / 1000) + 3600),
+	};
+}
+
+describe('Token 池轮换功能集成测试', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		usedTokens = [];
+	});
+
+	it('应该通过调试头暴露实际使用的 Token 序号', async () => {
+		mockUpstream(() => new Response('ok', { status: 200 }));
+
+		const response = await request('https://example.com/file.txt', poolEnv('a'));
+
+		expect(response.headers.get('X-Token-Index')).toBe('0');
+		expect(usedTokens).toEqual(['a-0']);
+	});
+
+	it('遇到 403/429 时应换用另一个 Token 重试一次', async () => {
+		mockUpstream((token) =>
+			token === 'b-0'
+				? new Response('rate limited', { status: 429, headers: { 'Retry-After': '120' } })
+				: new Response('ok', { status: 200 })
+		);
+
+		const response = await request('https://example.com/file.txt', poolEnv('b'));
+
+		expect(response.status).toBe(200);
+		expect(usedTokens).toEqual(['b-0', 'b-1']);
+		expect(response.headers.get('X-Token-Index')).toBe('1');
+	});
+
+	it('被限流的 Token 应在重置前被跳过', async () => {
+		mockUpstream((token) =>
+			token === 'c-0' ? new Response('limited', { status: 429 }) : new Response('ok', { status: 200 })
+		);
+
+		await request('https://example.com/a.txt', poolEnv('c'));
+		usedTokens = [];
+		const response = await request('https://example.com/b.txt', poolEnv('c'));
+
+		expect(usedTokens).toEqual(['c-1']);
+		expect(response.headers.get('X-Token-Index')).toBe('1');
+	});
+
+	it('应该优先选择剩余额度最多的 Token', async () => {
+		const remaining: Record<string, number> = { 'd-0': 5, 'd-1': 4000, 'd-2': 100 };
+		mockUpstream((token) => new Response('ok', { status: 200, headers: rateLimited(remaining[token]) }));
+
+		// 依次使用每个 Token 以记录其额度
+		await request('https://example.com/a.txt', poolEnv('d'));
+		mockUpstream((token) => new Response('denied', { status: 403, headers: rateLimited(remaining[token]) }));
+		await request('https://example.com/b.txt', poolEnv('d'));
+		mockUpstream((token) => new Response('ok', { status: 200, headers: rateLimited(remaining[token]) }));
+		await request('https://example.com/c.txt', poolEnv('d'));
+
+		usedTokens = [];
+		await request('https://example.com/d.txt', poolEnv('d'));
+		expect(usedTokens).toEqual(['d-1']);
+	});
+
+	it('额度耗尽且只有一个 Token 时应返回错误响应', async () => {
+		mockUpstream(() => new Response('limited', { status: 429 }));
+
+		const response = await request('https://example.com/file.txt', { ...poolEnv('e'), GH_TOKENS: '' });
+
+		expect(response.status).toBe(429);
+		expect(usedTokens).toEqual(['e-0']);
+	});
+});
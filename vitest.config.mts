@@ -5,6 +5,10 @@ export default defineWorkersConfig({
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.jsonc' },
+				miniflare: {
+					// 可选绑定，仅供测试使用
+					kvNamespaces: ['REPLACE_KV'],
+				},
 			},
 		},
 	},